@@ -0,0 +1,424 @@
+import * as cheerio from 'cheerio';
+import { defaultFetcher, type Fetcher } from './_fetcher.js';
+import { FONT_FAMILY, type SiteFonts } from '../src/data/siteConfigSchema.js';
+
+/**
+ * Brand extraction from a client's existing website.
+ * NOT a route (underscore prefix).
+ *
+ * Reads the homepage HTML and its linked stylesheets to find the dominant
+ * brand colors, font families and logo, then maps them onto the CSS
+ * custom properties in src/styles/theme.css.
+ */
+
+// ── Types ──
+
+export interface BrandProfile {
+  colors: { hex: string; weight: number }[]; // saturated brand colors, strongest first
+  text_color: string | null;
+  background_color: string | null;
+  theme_color: string | null; // <meta name="theme-color">
+  heading_font: string | null;
+  body_font: string | null;
+  logo_url: string | null;
+  favicon_url: string | null;
+  stylesheets: string[];
+}
+
+// ── Limits ──
+
+const CSS_TIMEOUT = 4000;
+const FONT_CHECK_TIMEOUT = 3000;
+const MAX_STYLESHEETS = 4;
+const MAX_CSS_BYTES = 500_000;
+
+const GENERIC_FONTS = new Set([
+  'inherit', 'initial', 'unset', 'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy',
+  'apple color emoji', 'segoe ui emoji', 'segoe ui symbol', 'noto color emoji',
+  'fontawesome', 'font awesome 5 free', 'font awesome 6 free', 'dashicons', 'icomoon',
+]);
+// A stack that starts with one of these is the OS default font, not a brand choice
+const SYSTEM_STACK_FONTS = new Set(['system-ui', '-apple-system', 'blinkmacsystemfont', 'ui-sans-serif', 'ui-serif']);
+
+// ── Extraction ──
+
+/**
+ * Build a brand profile from a page's HTML. Fetches up to MAX_STYLESHEETS
+ * linked stylesheets; inline <style> blocks and style attributes are read too.
+ */
+export async function extractBrand(
+  html: string,
+  pageUrl: string,
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<BrandProfile> {
+  const $ = cheerio.load(html);
+
+  const theme_color = normalizeColor($('meta[name="theme-color"]').attr('content') || '');
+
+  // Logo: a header/nav image that looks like a logo, then og:image, then apple-touch-icon
+  const logoImg = $('header img, nav img, [class*="logo"] img, img[class*="logo"], img[alt*="logo" i], img[src*="logo" i]')
+    .filter((_, el) => {
+      const $el = $(el);
+      const marker = `${$el.attr('class') || ''} ${$el.attr('alt') || ''} ${$el.attr('src') || ''} ${$el.parent().attr('class') || ''}`;
+      return /logo/i.test(marker) || $el.closest('header').length > 0;
+    })
+    .first();
+  const appleTouchIcon = $('link[rel~="apple-touch-icon"]').attr('href');
+  const logo_url = resolveUrl(
+    logoImg.attr('src') || logoImg.attr('data-src') || $('meta[property="og:image"]').attr('content') || appleTouchIcon,
+    pageUrl,
+  );
+  const favicon_url = resolveUrl($('link[rel~="icon"]').attr('href') || appleTouchIcon, pageUrl);
+
+  // Gather CSS: linked stylesheets, inline blocks, style attributes
+  const stylesheets = $('link[rel="stylesheet"][href]')
+    .toArray()
+    .map((el) => resolveUrl($(el).attr('href'), pageUrl))
+    .filter((href): href is string => !!href && !/fonts\.googleapis|font-awesome|fontawesome|bootstrap(\.min)?\.css/i.test(href))
+    .slice(0, MAX_STYLESHEETS);
+
+  const fetched = await Promise.all(stylesheets.map((url) => fetchStylesheet(url, fetcher)));
+  const css = [
+    ...fetched,
+    ...$('style').toArray().map((el) => $(el).html() || ''),
+    ...$('[style]').toArray().map((el) => `inline{${$(el).attr('style')}}`),
+  ].join('\n');
+
+  const googleFonts = $('link[href*="fonts.googleapis.com"]')
+    .toArray()
+    .flatMap((el) => parseGoogleFontFamilies($(el).attr('href') || ''));
+
+  const analysis = analyzeCss(css);
+
+  const heading_font = analysis.headingFont || googleFonts[0] || analysis.bodyFont || null;
+  const body_font = analysis.bodyFont || googleFonts[1] || googleFonts[0] || null;
+
+  // theme-color is an explicit brand statement — weight it above anything inferred
+  const colors = mergeColorWeights([
+    ...(theme_color && isBrandColor(theme_color) ? [{ hex: theme_color, weight: 50 }] : []),
+    ...analysis.brandColors,
+  ]);
+
+  return {
+    colors,
+    text_color: analysis.textColor,
+    background_color: analysis.backgroundColor,
+    theme_color,
+    heading_font,
+    body_font,
+    logo_url,
+    favicon_url,
+    stylesheets,
+  };
+}
+
+async function fetchStylesheet(url: string, fetcher: Fetcher): Promise<string> {
+  try {
+    const response = await fetcher(url, {
+      headers: { 'User-Agent': 'BochiBotWeb/1.0 (site migration tool)' },
+      signal: AbortSignal.timeout(CSS_TIMEOUT),
+    });
+    if (!response.ok) return '';
+    const text = await response.text();
+    return text.slice(0, MAX_CSS_BYTES);
+  } catch {
+    return '';
+  }
+}
+
+interface CssAnalysis {
+  brandColors: { hex: string; weight: number }[];
+  textColor: string | null;
+  backgroundColor: string | null;
+  headingFont: string | null;
+  bodyFont: string | null;
+}
+
+/**
+ * Score colors and fonts by where they are used. Custom properties named
+ * like brand tokens and colors on buttons, links and headings count most.
+ */
+function analyzeCss(css: string): CssAnalysis {
+  const brandWeights = new Map<string, number>();
+  const textWeights = new Map<string, number>();
+  const backgroundWeights = new Map<string, number>();
+  const headingFonts = new Map<string, number>();
+  const bodyFonts = new Map<string, number>();
+
+  const stripped = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const ruleRegex = /([^{}]+)\{([^{}]*)\}/g;
+  let rule: RegExpExecArray | null;
+
+  while ((rule = ruleRegex.exec(stripped)) !== null) {
+    const selector = rule[1].trim().toLowerCase();
+    if (selector.startsWith('@font-face')) continue;
+
+    const isInteractive = /(^|[\s,.#])(a|button|\.btn|\.button|\[type=.?submit)|btn|button|cta/.test(selector);
+    const isHeading = /(^|[\s,>])h[1-6]\b|title|heading/.test(selector);
+    const isBody = /(^|[\s,])(html|body)\b|:root/.test(selector);
+
+    for (const declaration of rule[2].split(';')) {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) continue;
+      const prop = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+
+      if (prop === 'font-family' || (prop === 'font' && value.includes(','))) {
+        const family = firstCustomFont(value);
+        if (family) {
+          const target = isHeading ? headingFonts : bodyFonts;
+          target.set(family, (target.get(family) || 0) + (isBody || isHeading ? 5 : 1));
+        }
+        continue;
+      }
+
+      const isBrandToken = prop.startsWith('--') && /primary|brand|accent|secondary|main|theme/.test(prop);
+      const isColorProp = /color|background|border|fill|stroke|outline/.test(prop) || prop.startsWith('--');
+      if (!isColorProp) continue;
+
+      for (const hex of findColors(value)) {
+        if (isBrandColor(hex)) {
+          let weight = 1;
+          if (isBrandToken) weight = 20;
+          else if (isInteractive) weight = 5;
+          else if (isHeading) weight = 3;
+          brandWeights.set(hex, (brandWeights.get(hex) || 0) + weight);
+        } else if (isBody && prop === 'color') {
+          textWeights.set(hex, (textWeights.get(hex) || 0) + 5);
+        } else if (isBody && prop.startsWith('background')) {
+          backgroundWeights.set(hex, (backgroundWeights.get(hex) || 0) + 5);
+        } else if (prop === 'color') {
+          textWeights.set(hex, (textWeights.get(hex) || 0) + 1);
+        }
+      }
+    }
+  }
+
+  return {
+    brandColors: mergeColorWeights([...brandWeights].map(([hex, weight]) => ({ hex, weight }))),
+    textColor: topKey(textWeights),
+    backgroundColor: topKey(backgroundWeights),
+    headingFont: topKey(headingFonts),
+    bodyFont: topKey(bodyFonts),
+  };
+}
+
+function firstCustomFont(value: string): string | null {
+  const families = value.split(',').map((part) => part
+    .replace(/!important/i, '')
+    // `font` shorthand: the family is whatever follows the size
+    .replace(/^.*\d(px|rem|em|%|pt)(\/[\w.]+)?\s+/i, '')
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .trim());
+
+  if (SYSTEM_STACK_FONTS.has((families[0] || '').toLowerCase())) return null;
+  return families.find((name) => name && !name.startsWith('var(') && !GENERIC_FONTS.has(name.toLowerCase())) || null;
+}
+
+function parseGoogleFontFamilies(href: string): string[] {
+  try {
+    const url = new URL(href, 'https://fonts.googleapis.com');
+    return url.searchParams.getAll('family')
+      .flatMap((f) => f.split('|'))
+      .map((f) => f.split(':')[0].replace(/\+/g, ' ').trim())
+      .filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+function resolveUrl(href: string | undefined, base: string): string | null {
+  if (!href || href.startsWith('data:')) return null;
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return null;
+  }
+}
+
+function topKey(weights: Map<string, number>): string | null {
+  let best: string | null = null;
+  let bestWeight = 0;
+  for (const [key, weight] of weights) {
+    if (weight > bestWeight) {
+      best = key;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// ── Color math ──
+
+type Rgb = [number, number, number];
+
+function findColors(value: string): string[] {
+  const colors: string[] = [];
+  const regex = /#[0-9a-f]{3,8}\b|rgba?\([^)]*\)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(value)) !== null) {
+    const hex = normalizeColor(match[0]);
+    if (hex) colors.push(hex);
+  }
+  return colors;
+}
+
+/** Normalize #rgb, #rrggbb, #rrggbbaa and rgb()/rgba() to #rrggbb. Transparent colors return null. */
+export function normalizeColor(value: string): string | null {
+  const v = value.trim().toLowerCase();
+  let rgb: Rgb | null = null;
+
+  const hexMatch = v.match(/^#([0-9a-f]{3,8})$/);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map((c) => c + c).join('');
+    if (hex.length === 8 && parseInt(hex.slice(6, 8), 16) < 128) return null;
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    rgb = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+  }
+
+  const rgbMatch = v.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgbMatch) {
+    const alpha = rgbMatch[4] ? parseFloat(rgbMatch[4]) / (rgbMatch[4].endsWith('%') ? 100 : 1) : 1;
+    if (alpha < 0.5) return null;
+    rgb = [rgbMatch[1], rgbMatch[2], rgbMatch[3]].map((n) => Math.min(255, Math.round(parseFloat(n)))) as Rgb;
+  }
+
+  return rgb ? rgbToHex(rgb) : null;
+}
+
+function hexToRgb(hex: string): Rgb {
+  return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgb;
+}
+
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb.map((n) => Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function saturationAndLightness(hex: string): { s: number; l: number } {
+  const [r, g, b] = hexToRgb(hex).map((n) => n / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+  return { s, l };
+}
+
+/** Saturated, mid-lightness colors are brand candidates; grays, near-white and near-black are neutrals. */
+function isBrandColor(hex: string): boolean {
+  const { s, l } = saturationAndLightness(hex);
+  return s > 0.25 && l > 0.12 && l < 0.88;
+}
+
+/** Combine weights of near-identical colors so one brand color isn't split across shades. */
+function mergeColorWeights(colors: { hex: string; weight: number }[]): { hex: string; weight: number }[] {
+  const merged: { hex: string; weight: number }[] = [];
+  for (const color of [...colors].sort((a, b) => b.weight - a.weight)) {
+    const close = merged.find((m) => colorDistance(m.hex, color.hex) < 24);
+    if (close) close.weight += color.weight;
+    else merged.push({ ...color });
+  }
+  return merged.sort((a, b) => b.weight - a.weight);
+}
+
+function colorDistance(a: string, b: string): number {
+  const [r1, g1, b1] = hexToRgb(a);
+  const [r2, g2, b2] = hexToRgb(b);
+  return Math.sqrt((r1 - r2) ** 2 + (g1 - g2) ** 2 + (b1 - b2) ** 2);
+}
+
+function mix(hex: string, target: Rgb, amount: number): string {
+  const rgb = hexToRgb(hex);
+  return rgbToHex(rgb.map((n, i) => n + (target[i] - n) * amount) as Rgb);
+}
+
+// ── Theme mapping ──
+
+/**
+ * Map a brand profile's colors onto theme.css custom properties.
+ * Only variables with a confident value are returned; the rest keep
+ * their template defaults. Fonts go through siteConfig.fonts (brandFonts)
+ * so the layout loads the same families theme.css names.
+ */
+export function brandToThemeVariables(brand: BrandProfile): Record<string, string> {
+  const vars: Record<string, string> = {};
+  const [primary, second] = brand.colors;
+
+  if (primary) {
+    vars['--color-primary'] = primary.hex;
+    vars['--color-primary-dark'] = mix(primary.hex, [0, 0, 0], 0.2);
+    vars['--color-primary-light'] = mix(primary.hex, [255, 255, 255], 0.85);
+    // Deep shade of the primary for dark sections, unless the site already uses a dark text color
+    vars['--color-secondary'] = brand.text_color && saturationAndLightness(brand.text_color).l < 0.25
+      ? brand.text_color
+      : mix(primary.hex, [0, 0, 0], 0.75);
+  }
+  if (second) vars['--color-accent'] = second.hex;
+  if (brand.text_color) vars['--color-text'] = brand.text_color;
+  if (brand.background_color && saturationAndLightness(brand.background_color).l > 0.9) {
+    vars['--color-bg'] = brand.background_color;
+  }
+
+  return vars;
+}
+
+/**
+ * The brand's font families for siteConfig.fonts. BaseLayout loads them from
+ * Google Fonts, where one unknown family fails the whole request — so a
+ * family that isn't there (Typekit, self-hosted) is replaced by the one from
+ * `fallback`. Null when the brand names no font Google Fonts has.
+ */
+export async function brandFonts(
+  brand: BrandProfile,
+  fallback: SiteFonts,
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<SiteFonts | null> {
+  const [heading, body] = await Promise.all([
+    brand.heading_font || brand.body_font,
+    brand.body_font || brand.heading_font,
+  ].map(async (family) => (family && await isGoogleFont(family, fetcher) ? family : null)));
+  if (!heading && !body) return null;
+  return { heading: heading || fallback.heading, body: body || fallback.body };
+}
+
+/** Whether Google Fonts serves `family` — its css2 API answers 400 for unknown families. */
+export async function isGoogleFont(family: string, fetcher: Fetcher = defaultFetcher()): Promise<boolean> {
+  if (!FONT_FAMILY.test(family)) return false;
+  try {
+    const response = await fetcher(`https://fonts.googleapis.com/css2?family=${family.replace(/ /g, '+')}`, {
+      signal: AbortSignal.timeout(FONT_CHECK_TIMEOUT),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/** theme.css font variables for siteConfig.fonts. */
+export function fontThemeVariables(fonts: SiteFonts): Record<string, string> {
+  return {
+    '--font-heading': `${cssString(fonts.heading)}, system-ui, sans-serif`,
+    '--font-body': `${cssString(fonts.body)}, system-ui, sans-serif`,
+  };
+}
+
+/** A single-quoted CSS string; quotes, backslashes, semicolons and line breaks are hex-escaped. */
+function cssString(value: string): string {
+  return `'${value.replace(/['"\\;\r\n]/g, (char) => `\\${char.charCodeAt(0).toString(16)} `)}'`;
+}
+
+/**
+ * Write variable values into the :root block of theme.css.
+ * The @theme block and any variable not in `vars` are left untouched.
+ */
+export function applyThemeVariables(themeCss: string, vars: Record<string, string>): string {
+  return themeCss.replace(/:root\s*\{[\s\S]*?\n\}/, (rootBlock) => {
+    let updated = rootBlock;
+    for (const [name, value] of Object.entries(vars)) {
+      const escaped = name.replace(/[-]/g, '\\-');
+      updated = updated.replace(new RegExp(`(${escaped}\\s*:\\s*)[^;]+;`), (_, prefix) => `${prefix}${value};`);
+    }
+    return updated;
+  });
+}
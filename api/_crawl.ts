@@ -0,0 +1,530 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { defaultFetcher, type Fetcher } from './_fetcher.js';
+import {
+  normalizeUrl,
+  urlToSlug,
+  fetchPage,
+  extractPageData,
+  extractInternalLinks,
+  parseRobotsTxt,
+  isBlockedByRobots,
+  fetchRobotsTxt,
+  parseRobotsSitemaps,
+  discoverSitemapUrls,
+  stripRepeatedBlocks,
+  dedupeLocations,
+  mergeNavigation,
+  checkLinks,
+  isBrokenLink,
+  type HttpInfo,
+  type PageData,
+  type ScrapedData,
+  type SitemapEntry,
+} from './_scraper.js';
+
+/**
+ * Crawl job engine shared by the crawl-* endpoints.
+ * NOT a route (underscore prefix).
+ *
+ * A job stores its breadth-first frontier in Supabase (ai_website_crawl_frontier)
+ * and advances it one batch per invocation, so every call stays inside the
+ * serverless function time limit and a crawl can be paused and resumed.
+ * Links past the depth limit or page budget are still status-checked (not
+ * scraped) once crawling finishes, so broken links are reported site-wide.
+ */
+
+// ── Types ──
+
+export type CrawlStatus = 'running' | 'paused' | 'completed';
+export type FrontierStatus = 'queued' | 'fetching' | 'scraped' | 'skipped' | 'unchecked' | 'checked';
+
+export interface CrawlJob {
+  id: string;
+  client_id: string;
+  client_slug: string;
+  status: CrawlStatus;
+  source_url: string;
+  origin: string;
+  canonical_prefix: 'www' | 'non-www';
+  ssl: boolean;
+  max_depth: number;
+  max_pages: number;
+  robots_txt: string | null;
+  crawl_delay: number | null;
+  sitemap_urls: SitemapEntry[];
+  pages_queued: number;
+  pages_done: number;
+  scraped_data: ScrapedData | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface FrontierEntry {
+  id: number;
+  job_id: string;
+  url: string;
+  depth: number;
+  status: FrontierStatus;
+  error: string | null;
+  page: PageData | null;
+  http: HttpInfo | null;
+  claimed_at: string | null;
+}
+
+// ── Limits ──
+
+export const DEFAULT_MAX_DEPTH = 3;
+export const DEFAULT_MAX_PAGES = 200;
+export const MAX_PAGES_LIMIT = 500;
+const BATCH_SIZE = 5; // fetched in parallel — one round fits the 10s limit
+const LINK_CHECK_BATCH = 20; // HEAD requests are cheap; 2 rounds of 10 fit the limit
+const STALE_CLAIM_MS = 30_000; // a batch older than this died mid-invocation
+
+const JOBS_TABLE = 'ai_website_crawl_jobs';
+const FRONTIER_TABLE = 'ai_website_crawl_frontier';
+
+// Rows counted against max_pages: everything queued for scraping, whatever came of it
+const SCRAPE_STATUSES: FrontierStatus[] = ['queued', 'fetching', 'scraped', 'skipped'];
+
+// ── Job lifecycle ──
+
+/**
+ * Create a crawl job: read robots.txt and sitemaps, then seed the frontier
+ * with the start URL (depth 0) and every allowed sitemap URL (depth 1),
+ * up to the page budget.
+ */
+export async function createCrawlJob(
+  supabase: SupabaseClient,
+  params: {
+    clientId: string;
+    clientSlug: string;
+    startUrl: string;
+    maxDepth: number;
+    maxPages: number;
+    createdBy: string;
+  },
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<CrawlJob> {
+  const origin = new URL(params.startUrl).origin;
+  const robots_txt = await fetchRobotsTxt(origin, fetcher);
+  const robots = parseRobotsTxt(robots_txt || '');
+
+  const sitemap_urls = await discoverSitemapUrls(
+    [...(robots_txt ? parseRobotsSitemaps(robots_txt) : []), `${origin}/sitemap.xml`],
+    origin,
+    fetcher,
+  );
+
+  const seeds: { url: string; depth: number }[] = [];
+  const seen = new Set<string>();
+  const startNormalized = normalizeUrl(params.startUrl, origin) || params.startUrl;
+  seeds.push({ url: startNormalized, depth: 0 });
+  seen.add(startNormalized);
+  for (const entry of sitemap_urls) {
+    if (seeds.length >= params.maxPages) break;
+    if (seen.has(entry.url) || isBlockedByRobots(new URL(entry.url).pathname, robots)) continue;
+    seen.add(entry.url);
+    seeds.push({ url: entry.url, depth: 1 });
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from(JOBS_TABLE)
+    .insert({
+      client_id: params.clientId,
+      client_slug: params.clientSlug,
+      status: 'running',
+      source_url: params.startUrl,
+      origin,
+      canonical_prefix: new URL(params.startUrl).hostname.startsWith('www.') ? 'www' : 'non-www',
+      ssl: params.startUrl.startsWith('https'),
+      max_depth: params.maxDepth,
+      max_pages: params.maxPages,
+      robots_txt,
+      crawl_delay: robots.crawl_delay,
+      sitemap_urls,
+      pages_queued: seeds.length,
+      pages_done: 0,
+      created_by: params.createdBy,
+    })
+    .select()
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to create crawl job: ${jobError?.message || 'no row returned'}`);
+  }
+
+  const { error: seedError } = await supabase
+    .from(FRONTIER_TABLE)
+    .insert(seeds.map((s) => ({ job_id: job.id, url: s.url, depth: s.depth, status: 'queued' })));
+
+  if (seedError) {
+    throw new Error(`Failed to seed crawl frontier: ${seedError.message}`);
+  }
+
+  return job as CrawlJob;
+}
+
+export async function getCrawlJob(supabase: SupabaseClient, jobId: string): Promise<CrawlJob | null> {
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  if (error || !data) return null;
+  return data as CrawlJob;
+}
+
+export async function updateCrawlJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  fields: Partial<CrawlJob>,
+): Promise<CrawlJob> {
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select()
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to update crawl job: ${error?.message || 'no row returned'}`);
+  }
+  return data as CrawlJob;
+}
+
+// ── Batch processing ──
+
+/**
+ * Advance a running job by one batch of frontier URLs.
+ * Claims queued rows, scrapes them in parallel, enqueues newly found links
+ * one level deeper, then checks leftover links and completes the job once
+ * the frontier is exhausted. Supabase errors are thrown — a failed read must
+ * not look like an empty frontier, or the job would complete early.
+ */
+export async function processCrawlBatch(
+  supabase: SupabaseClient,
+  job: CrawlJob,
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<CrawlJob> {
+  if (job.status !== 'running') return job;
+
+  // Release rows claimed by an invocation that never finished
+  const { error: releaseError } = await supabase
+    .from(FRONTIER_TABLE)
+    .update({ status: 'queued', claimed_at: null })
+    .eq('job_id', job.id)
+    .eq('status', 'fetching')
+    .lt('claimed_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString());
+  if (releaseError) {
+    throw new Error(`Failed to release stale frontier rows: ${releaseError.message}`);
+  }
+
+  // Honor crawl-delay by fetching one URL per invocation; the caller paces calls
+  const batchSize = job.crawl_delay ? 1 : BATCH_SIZE;
+
+  const { data: queued, error: queuedError } = await supabase
+    .from(FRONTIER_TABLE)
+    .select('id')
+    .eq('job_id', job.id)
+    .eq('status', 'queued')
+    .order('depth', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(batchSize);
+  if (queuedError) {
+    throw new Error(`Failed to load crawl frontier: ${queuedError.message}`);
+  }
+
+  if (!queued || queued.length === 0) {
+    if (await countFrontier(supabase, job, ['fetching']) > 0) return job;
+    if (await checkUncrawledLinks(supabase, job, fetcher)) return updateCrawlJob(supabase, job.id, {});
+    return completeCrawlJob(supabase, job);
+  }
+
+  // Claim the rows — another invocation may have picked some of them already
+  const { data: claimed, error: claimError } = await supabase
+    .from(FRONTIER_TABLE)
+    .update({ status: 'fetching', claimed_at: new Date().toISOString() })
+    .in('id', queued.map((q) => q.id))
+    .eq('status', 'queued')
+    .select();
+  if (claimError) {
+    throw new Error(`Failed to claim frontier rows: ${claimError.message}`);
+  }
+
+  const entries = (claimed || []) as FrontierEntry[];
+  if (entries.length === 0) return job;
+
+  const robots = parseRobotsTxt(job.robots_txt || '');
+  const discovered = new Map<string, number>(); // url → depth
+
+  const results = await Promise.all(entries.map(async (entry) => {
+    const result = await fetchPage(entry.url, fetcher);
+    if (!result.html) {
+      return {
+        entry,
+        fields: { status: 'skipped', error: `Could not fetch ${entry.url}: ${result.error}`, http: result.http },
+      };
+    }
+
+    const page = extractPageData(result.html, result.finalUrl, job.origin);
+    page.http = result.http;
+    page.snapshot_path = await uploadSnapshot(supabase, job, result.finalUrl, result.html);
+
+    // Links one level past max_depth are recorded for the link check only
+    for (const link of extractInternalLinks(result.html, result.finalUrl, job.origin)) {
+      if (discovered.has(link) || isBlockedByRobots(new URL(link).pathname, robots)) continue;
+      discovered.set(link, entry.depth + 1);
+    }
+
+    return { entry, fields: { status: 'scraped', page, http: result.http } };
+  }));
+
+  // Links go in before the rows are marked done: if this throws, the rows stay
+  // claimed and are scraped again once the claim goes stale
+  await enqueueLinks(supabase, job, discovered);
+
+  await Promise.all(results.map(async ({ entry, fields }) => {
+    const { error } = await supabase
+      .from(FRONTIER_TABLE)
+      .update(fields)
+      .eq('id', entry.id);
+    if (error) {
+      throw new Error(`Failed to save ${entry.url}: ${error.message}`);
+    }
+  }));
+
+  return refreshPageCounts(supabase, job);
+}
+
+/**
+ * Insert links not yet in the frontier, up to the job's page budget.
+ * Links past max_depth or over budget go in as 'unchecked'.
+ */
+async function enqueueLinks(
+  supabase: SupabaseClient,
+  job: CrawlJob,
+  discovered: Map<string, number>,
+): Promise<void> {
+  const links = [...discovered.keys()];
+  if (links.length === 0) return;
+
+  const { data: existing, error: existingError } = await supabase
+    .from(FRONTIER_TABLE)
+    .select('url')
+    .eq('job_id', job.id)
+    .in('url', links);
+  if (existingError) {
+    throw new Error(`Failed to load crawl frontier: ${existingError.message}`);
+  }
+
+  const known = new Set((existing || []).map((row) => row.url as string));
+  const fresh = links.filter((link) => !known.has(link));
+  if (fresh.length === 0) return;
+
+  // Counted from the frontier, not the job row — a concurrent batch may have queued pages since
+  const remaining = Math.max(0, job.max_pages - await countFrontier(supabase, job, SCRAPE_STATUSES));
+  const crawlable = fresh.filter((url) => discovered.get(url)! <= job.max_depth).slice(0, remaining);
+  const rows = fresh.map((url) => ({
+    job_id: job.id,
+    url,
+    depth: discovered.get(url),
+    status: crawlable.includes(url) ? 'queued' : 'unchecked',
+  }));
+
+  // (job_id, url) is unique — duplicates from a concurrent batch are ignored
+  const { error } = await supabase
+    .from(FRONTIER_TABLE)
+    .upsert(rows, { onConflict: 'job_id,url', ignoreDuplicates: true });
+  if (error) {
+    throw new Error(`Failed to enqueue links: ${error.message}`);
+  }
+}
+
+async function countFrontier(supabase: SupabaseClient, job: CrawlJob, statuses: FrontierStatus[]): Promise<number> {
+  const { count, error } = await supabase
+    .from(FRONTIER_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('job_id', job.id)
+    .in('status', statuses);
+  if (error) {
+    throw new Error(`Failed to count crawl frontier: ${error.message}`);
+  }
+  return count || 0;
+}
+
+async function refreshPageCounts(supabase: SupabaseClient, job: CrawlJob): Promise<CrawlJob> {
+  const [queued, done] = await Promise.all([
+    countFrontier(supabase, job, SCRAPE_STATUSES),
+    countFrontier(supabase, job, ['scraped', 'skipped']),
+  ]);
+  return updateCrawlJob(supabase, job.id, { pages_queued: queued, pages_done: done });
+}
+
+/**
+ * Status-check one batch of links that were found but not scraped.
+ * Returns false once none are left.
+ */
+async function checkUncrawledLinks(supabase: SupabaseClient, job: CrawlJob, fetcher: Fetcher): Promise<boolean> {
+  const { data: unchecked, error } = await supabase
+    .from(FRONTIER_TABLE)
+    .select('id, url')
+    .eq('job_id', job.id)
+    .eq('status', 'unchecked')
+    .order('id', { ascending: true })
+    .limit(LINK_CHECK_BATCH);
+  if (error) {
+    throw new Error(`Failed to load unchecked links: ${error.message}`);
+  }
+
+  if (!unchecked || unchecked.length === 0) return false;
+
+  const results = await checkLinks(unchecked.map((row) => row.url as string), fetcher);
+  await Promise.all(results.map(async (result, i) => {
+    const { error: updateError } = await supabase
+      .from(FRONTIER_TABLE)
+      .update({ status: 'checked', error: result.error, http: result.http })
+      .eq('id', unchecked[i].id);
+    if (updateError) {
+      throw new Error(`Failed to save link check for ${unchecked[i].url}: ${updateError.message}`);
+    }
+  }));
+
+  return true;
+}
+
+async function uploadSnapshot(
+  supabase: SupabaseClient,
+  job: CrawlJob,
+  finalUrl: string,
+  html: string,
+): Promise<string | null> {
+  try {
+    const comment = `<!-- Snapshot of ${finalUrl} taken on ${new Date().toISOString()} by Bochi Web -->\n`;
+    const snapshotPath = `${job.client_slug}/${urlToSlug(finalUrl, job.origin)}.html`;
+    await supabase.storage
+      .from('site-snapshots')
+      .upload(snapshotPath, comment + html, {
+        contentType: 'text/html',
+        upsert: true,
+      });
+    return snapshotPath;
+  } catch (err) {
+    console.error('Snapshot upload failed (non-fatal):', (err as Error).message);
+    return null;
+  }
+}
+
+// ── Completion ──
+
+async function completeCrawlJob(supabase: SupabaseClient, job: CrawlJob): Promise<CrawlJob> {
+  const { data: rows, error } = await supabase
+    .from(FRONTIER_TABLE)
+    .select('*')
+    .eq('job_id', job.id)
+    .order('depth', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load crawl frontier: ${error.message}`);
+  }
+
+  const now = new Date().toISOString();
+  return updateCrawlJob(supabase, job.id, {
+    status: 'completed',
+    scraped_data: assembleScrapedData(job, (rows || []) as FrontierEntry[]),
+    completed_at: now,
+  });
+}
+
+/**
+ * Build the final ScrapedData from the finished frontier.
+ * Global contact details and locations are merged across pages; navigation is
+ * the homepage menu (the first page at depth 0) merged with the matching menus
+ * on other pages. Boilerplate blocks repeated
+ * across pages are stripped from each page's content_markdown.
+ * Redirect hops and broken links are collected from every fetched or
+ * checked URL.
+ */
+export function assembleScrapedData(job: CrawlJob, entries: FrontierEntry[]): ScrapedData {
+  const pages: PageData[] = [];
+  const skipped: ScrapedData['skipped'] = [];
+  const seenPageUrls = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.status === 'scraped' && entry.page) {
+      // Redirects can land two frontier URLs on the same final page
+      if (seenPageUrls.has(entry.page.url)) continue;
+      seenPageUrls.add(entry.page.url);
+      pages.push(entry.page);
+    } else if (entry.status === 'skipped') {
+      skipped.push({ url: entry.url, error: entry.error || 'Skipped', status: entry.http?.status ?? null });
+    }
+  }
+
+  // ── Legacy redirects and broken links ──
+  const redirects = new Map<string, ScrapedData['redirects'][number]>();
+  const broken_links: ScrapedData['broken_links'] = [];
+  for (const entry of entries) {
+    if (!entry.http) continue;
+    for (const hop of entry.http.redirects) {
+      if (!redirects.has(hop.url)) redirects.set(hop.url, { from: hop.url, to: hop.location, status: hop.status });
+    }
+    if (isBrokenLink(entry.http)) {
+      broken_links.push({
+        url: entry.url,
+        status: entry.http.status,
+        error: entry.error,
+        linked_from: pages.filter((p) => p.internal_links.includes(entry.url)).map((p) => p.url),
+      });
+    }
+  }
+
+  // Header/footer text repeated across the site isn't page content
+  stripRepeatedBlocks(pages);
+
+  const homepage = pages.find((p) => p.slug === 'index') || pages[0];
+  const locations = dedupeLocations(pages.flatMap((p) => p.locations || []));
+
+  return {
+    scraped_at: new Date().toISOString(),
+    source_url: job.source_url,
+    canonical_prefix: job.canonical_prefix,
+    ssl: job.ssl,
+    total_pages: pages.length,
+    sitemap_urls: job.sitemap_urls.map((entry) => entry.url),
+    sitemap_entries: job.sitemap_urls,
+    robots_txt: job.robots_txt,
+    global: {
+      phone_numbers: [...new Set(pages.flatMap((p) => p.phone_numbers))],
+      email_addresses: [...new Set(pages.flatMap((p) => p.email_addresses))],
+      physical_address: homepage?.physical_address || pages.find((p) => p.physical_address)?.physical_address || null,
+      locations,
+      opening_hours: locations.find((l) => l.hours)?.hours || homepage?.opening_hours || pages.find((p) => p.opening_hours)?.opening_hours || null,
+      social_links: [...new Set(pages.flatMap((p) => p.social_links))],
+      navigation: mergeNavigation([homepage, ...pages.filter((p) => p !== homepage)].map((p) => p?.navigation || [])),
+    },
+    pages,
+    skipped,
+    redirects: [...redirects.values()],
+    broken_links,
+  };
+}
+
+/** Job fields safe to return to the Command Center (the assembled result is returned separately). */
+export function summarizeCrawlJob(job: CrawlJob) {
+  return {
+    job_id: job.id,
+    client_id: job.client_id,
+    status: job.status,
+    source_url: job.source_url,
+    max_depth: job.max_depth,
+    max_pages: job.max_pages,
+    crawl_delay: job.crawl_delay,
+    pages_queued: job.pages_queued,
+    pages_done: job.pages_done,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+    completed_at: job.completed_at,
+  };
+}
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Pluggable HTTP fetcher for scraping code.
+ * NOT a route (underscore prefix).
+ *
+ * Everything that fetches from a client's legacy site takes a Fetcher, so a
+ * scrape can be recorded to a fixture directory and replayed offline —
+ * e.g. to reproduce a bad scrape a client reported.
+ *
+ * Set SCRAPER_FIXTURES_MODE=record|replay and SCRAPER_FIXTURES_DIR to switch
+ * the default fetcher; otherwise requests go straight to the network.
+ */
+
+// ── Types ──
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface FixtureRecord {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string; // base64
+  recorded_at: string;
+}
+
+// Bodies are stored decoded, so these headers would no longer be true on replay
+const DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// ── Fetchers ──
+
+export const networkFetcher: Fetcher = (url, init) => fetch(url, init);
+
+/** Pass requests through to `inner` and save every response under `dir`. */
+export function createRecordingFetcher(dir: string, inner: Fetcher = networkFetcher): Fetcher {
+  mkdirSync(dir, { recursive: true });
+
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const body = NULL_BODY_STATUSES.has(response.status) ? Buffer.alloc(0) : Buffer.from(await response.arrayBuffer());
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!DROPPED_HEADERS.has(key)) headers[key] = value;
+    });
+
+    const method = init?.method || 'GET';
+    const record: FixtureRecord = {
+      method,
+      url,
+      status: response.status,
+      headers,
+      body: body.toString('base64'),
+      recorded_at: new Date().toISOString(),
+    };
+    writeFileSync(join(dir, fixtureFileName(method, url)), JSON.stringify(record, null, 2));
+
+    return toResponse(record);
+  };
+}
+
+/**
+ * Serve responses from fixtures recorded by createRecordingFetcher.
+ * A request with no fixture fails like a network error.
+ */
+export function createReplayFetcher(dir: string): Fetcher {
+  return async (url, init) => {
+    const method = init?.method || 'GET';
+    const file = join(dir, fixtureFileName(method, url));
+    if (!existsSync(file)) {
+      throw new Error(`No fixture recorded for ${method} ${url}`);
+    }
+    return toResponse(JSON.parse(readFileSync(file, 'utf-8')) as FixtureRecord);
+  };
+}
+
+let envFetcher: Fetcher | null = null;
+
+/** The fetcher selected by SCRAPER_FIXTURES_MODE (network when unset). */
+export function defaultFetcher(): Fetcher {
+  if (envFetcher) return envFetcher;
+
+  const mode = process.env.SCRAPER_FIXTURES_MODE;
+  const dir = process.env.SCRAPER_FIXTURES_DIR;
+  if (mode && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid SCRAPER_FIXTURES_MODE: ${mode} (expected "record" or "replay")`);
+  }
+  if (mode && !dir) {
+    throw new Error('SCRAPER_FIXTURES_DIR is required when SCRAPER_FIXTURES_MODE is set');
+  }
+
+  envFetcher = mode === 'record'
+    ? createRecordingFetcher(dir!)
+    : mode === 'replay'
+      ? createReplayFetcher(dir!)
+      : networkFetcher;
+  return envFetcher;
+}
+
+// ── Fixtures ──
+
+/** Readable prefix for browsing the directory, hash for uniqueness. */
+function fixtureFileName(method: string, url: string): string {
+  const hash = createHash('sha1').update(`${method} ${url}`).digest('hex').slice(0, 12);
+  const readable = url
+    .replace(/^https?:\/\//, '')
+    .replace(/[^a-zA-Z0-9.-]+/g, '_')
+    .slice(0, 80);
+  return `${method.toLowerCase()}_${readable}_${hash}.json`;
+}
+
+function toResponse(record: FixtureRecord): Response {
+  const body = NULL_BODY_STATUSES.has(record.status) ? null : Buffer.from(record.body, 'base64');
+  return new Response(body, { status: record.status, headers: record.headers });
+}
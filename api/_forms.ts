@@ -0,0 +1,240 @@
+import type { PageData, ScrapedForm, ScrapedFormField } from './_scraper.js';
+import type { FormField, FormFieldType, FormSchema } from '../src/data/siteConfigSchema.js';
+
+/**
+ * Map the forms scraped from a client's old site to siteConfig.forms.
+ * NOT a route (underscore prefix).
+ *
+ * Each form is classified as a quote request, booking request or general
+ * contact form (search, login and newsletter forms are dropped). Fields are
+ * mapped to standard names where they match, custom fields are kept, and
+ * forms of the same kind found on several pages are merged.
+ */
+
+// ── Types ──
+
+type FormKind = FormSchema['kind'];
+
+// ── Rules ──
+
+const KIND_ORDER: FormKind[] = ['quote', 'booking', 'contact'];
+const KIND_DEFAULTS: Record<FormKind, { id: string; title: string; submitLabel: string }> = {
+  quote: { id: 'quote-request', title: 'Request a Free Quote', submitLabel: 'Get My Quote' },
+  booking: { id: 'booking-request', title: 'Book an Appointment', submitLabel: 'Request Appointment' },
+  contact: { id: 'contact', title: 'Send Us a Message', submitLabel: 'Send Message' },
+};
+
+const BOOKING_PATTERN = /\b(book|booking|appointment|schedul|reserv|availability)/;
+const QUOTE_PATTERN = /\b(quote|estimate|bid|pricing|proposal)/;
+const NEWSLETTER_PATTERN = /\b(subscribe|newsletter|sign ?up|mailing list)/;
+const SEARCH_NAMES = /^(s|q|query|search|keywords?)$/;
+
+const SKIPPED_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image', 'file', 'password', 'search']);
+// Spam traps and form-plugin plumbing
+const SKIPPED_NAMES = /(honeypot|gotcha|captcha|nonce|token|^_|^action$|^form_id$)/i;
+const GENERIC_SUBMIT = /^(submit|send|go|ok)$/i;
+const CHOICE_TYPES = new Set(['select', 'radio', 'checkbox']);
+
+// Checked in order, first match wins — "email address" is an email, not an address.
+// Email and phone inputs, and any textarea left over, match on type alone.
+const STANDARD_FIELDS: {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  test: RegExp;
+  onlyTypes?: string[];
+  width?: 'half';
+}[] = [
+  { name: 'email', label: 'Email Address', type: 'email', test: /e-?mail/, width: 'half' },
+  { name: 'phone', label: 'Phone Number', type: 'tel', test: /phone|\btel\b|mobile|\bcell/, width: 'half' },
+  { name: 'first_name', label: 'First Name', type: 'text', test: /first[_ -]?name|\bfname|given[_ -]?name/, width: 'half' },
+  { name: 'last_name', label: 'Last Name', type: 'text', test: /last[_ -]?name|\blname|surname|family[_ -]?name/, width: 'half' },
+  { name: 'company', label: 'Company', type: 'text', test: /company|business|organi[sz]ation/ },
+  { name: 'address', label: 'Address', type: 'text', test: /address|street/ },
+  { name: 'city', label: 'City', type: 'text', test: /\bcity\b|\btown\b/, width: 'half' },
+  { name: 'state', label: 'State', type: 'text', test: /\bstate\b|province/, width: 'half' },
+  { name: 'zip', label: 'ZIP Code', type: 'text', test: /\bzip|postal|postcode/, width: 'half' },
+  { name: 'service', label: 'Service Interested In', type: 'select', test: /service|interest/, onlyTypes: ['text', ...CHOICE_TYPES] },
+  { name: 'preferred_date', label: 'Preferred Date', type: 'date', test: /\bdate\b|\bday\b/, width: 'half' },
+  { name: 'preferred_time', label: 'Preferred Time', type: 'time', test: /\btime\b/, width: 'half' },
+  { name: 'name', label: 'Full Name', type: 'text', test: /name/, onlyTypes: ['text'], width: 'half' },
+  {
+    name: 'message',
+    label: 'Message',
+    type: 'textarea',
+    test: /message|comment|details|description|question|help|inquiry|enquiry/,
+    onlyTypes: ['text', 'textarea'],
+  },
+];
+
+// ── Analysis ──
+
+/** Every usable form on the scraped pages as siteConfig form schemas, quote first. */
+export function analyzeForms(pages: PageData[]): FormSchema[] {
+  const byKind = new Map<FormKind, FormSchema>();
+
+  for (const page of pages) {
+    for (const form of page.forms || []) {
+      const fields = groupChoiceFields(form.fields.filter(isUsableField));
+      const kind = classifyForm(form, fields, page.url);
+      if (!kind) continue;
+
+      const mapped = mapFields(fields);
+      const existing = byKind.get(kind);
+      if (existing) {
+        for (const field of mapped) {
+          if (!existing.fields.some((f) => f.name === field.name)) existing.fields.push(field);
+        }
+        continue;
+      }
+
+      const defaults = KIND_DEFAULTS[kind];
+      const submit = form.submit_label && !GENERIC_SUBMIT.test(form.submit_label) ? form.submit_label : null;
+      byKind.set(kind, { ...defaults, kind, submitLabel: submit || defaults.submitLabel, fields: mapped });
+    }
+  }
+
+  return KIND_ORDER.filter((kind) => byKind.has(kind)).map((kind) => ensureReplyField(byKind.get(kind)!));
+}
+
+function isUsableField(field: ScrapedFormField): boolean {
+  if (SKIPPED_TYPES.has(field.type) || SKIPPED_NAMES.test(field.name)) return false;
+  return !!(field.name || field.label || field.placeholder);
+}
+
+/** Radio buttons and checkboxes arrive one input per choice; fold each group into one field. */
+function groupChoiceFields(fields: ScrapedFormField[]): ScrapedFormField[] {
+  const grouped: ScrapedFormField[] = [];
+  for (const field of fields) {
+    const group = (field.type === 'radio' || field.type === 'checkbox') && field.name
+      ? grouped.find((g) => g.type === field.type && g.name === field.name)
+      : undefined;
+    if (group) {
+      group.options = [...new Set([...group.options, ...field.options])];
+      group.required ||= field.required;
+    } else {
+      grouped.push({ ...field, options: [...field.options] });
+    }
+  }
+  return grouped;
+}
+
+/** null for forms that aren't lead forms (search, login, newsletter) or give no way to reply. */
+function classifyForm(form: ScrapedForm, fields: ScrapedFormField[], pageUrl: string): FormKind | null {
+  if (form.fields.some((f) => f.type === 'password')) return null;
+  if (fields.length === 0 || fields.every((f) => SEARCH_NAMES.test(f.name))) return null;
+
+  let path = '';
+  try {
+    path = new URL(pageUrl).pathname;
+  } catch { /* keep empty */ }
+  const text = [
+    form.heading,
+    form.submit_label,
+    form.action,
+    path,
+    ...fields.map((f) => `${f.name} ${f.label || ''} ${f.placeholder}`),
+  ].join(' ').toLowerCase();
+
+  const canReply = fields.some((f) => f.type === 'email' || f.type === 'tel' || /e-?mail|phone/i.test(`${f.name} ${f.label || ''}`));
+  if (!canReply) return null;
+  const hasMessage = fields.some((f) => f.type === 'textarea');
+  if (fields.length <= 2 && !hasMessage && NEWSLETTER_PATTERN.test(text)) return null;
+
+  if (BOOKING_PATTERN.test(text)) return 'booking';
+  if (QUOTE_PATTERN.test(text)) return 'quote';
+  if (fields.some((f) => f.type === 'date' || f.type === 'time')) return 'booking';
+  return 'contact';
+}
+
+function mapFields(fields: ScrapedFormField[]): FormField[] {
+  const mapped: FormField[] = [];
+
+  for (const field of fields) {
+    const label = cleanLabel(field.label || field.placeholder) || humanize(field.name);
+    const text = `${field.name} ${label}`.toLowerCase().replace(/[_-]+/g, ' ');
+    const isChoice = CHOICE_TYPES.has(field.type);
+
+    const standard = STANDARD_FIELDS.find((rule) =>
+      (field.type === rule.type && (rule.type === 'email' || rule.type === 'tel' || rule.type === 'textarea'))
+      || ((!rule.onlyTypes || rule.onlyTypes.includes(field.type)) && rule.test.test(text)),
+    );
+
+    let result: FormField;
+    if (standard?.name === 'service') {
+      // Choices follow the new site's services, not the old site's list
+      result = { name: 'service', label: standard.label, type: isChoice ? toFieldType(field.type) : 'select', optionsFrom: 'services' };
+    } else if (standard) {
+      result = {
+        name: standard.name,
+        label: standard.label,
+        type: isChoice ? toFieldType(field.type) : standard.type,
+        ...(isChoice && field.options.length > 0 ? { options: field.options } : {}),
+      };
+    } else {
+      const name = slugifyName(field.label || field.placeholder || field.name);
+      if (!name || /^(input|field)_?\d+$/.test(name)) continue; // plugin ids with no label to go on
+      result = { name, label, type: toFieldType(field.type) };
+      if (isChoice && field.options.length > 0) result.options = field.options;
+    }
+
+    // A lone checkbox is a yes/no question labelled by its only choice
+    if (result.type === 'checkbox' && result.options?.length === 1 && !field.label) {
+      result.label = result.options[0];
+      delete result.options;
+    }
+    if (field.required) result.required = true;
+    if (field.placeholder && !isChoice) result.placeholder = field.placeholder;
+    if (standard?.width) result.width = standard.width;
+
+    if (!mapped.some((f) => f.name === result.name)) mapped.push(result);
+  }
+
+  return mapped;
+}
+
+/** Leads are useless without a way to answer them: require email, else phone. */
+function ensureReplyField(schema: FormSchema): FormSchema {
+  const reply = schema.fields.find((f) => f.name === 'email') || schema.fields.find((f) => f.name === 'phone');
+  if (reply && !schema.fields.some((f) => f.required && (f.name === 'email' || f.name === 'phone'))) {
+    reply.required = true;
+  }
+  return schema;
+}
+
+function toFieldType(type: string): FormFieldType {
+  switch (type) {
+    case 'email':
+    case 'tel':
+    case 'number':
+    case 'date':
+    case 'time':
+    case 'textarea':
+    case 'select':
+    case 'radio':
+    case 'checkbox':
+      return type;
+    case 'datetime-local':
+      return 'date';
+    default:
+      return 'text';
+  }
+}
+
+function cleanLabel(label: string | null): string {
+  return (label || '').replace(/[\s*:]+$/, '').trim();
+}
+
+function humanize(name: string): string {
+  const words = name.replace(/\[\]$/, '').replace(/[_\-[\]]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** "Type of Project *" → "type_of_project" */
+function slugifyName(text: string): string {
+  return cleanLabel(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .slice(0, 40);
+}
@@ -0,0 +1,394 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  getEnv,
+  fetchFileFromGitHub,
+  stripFences,
+  GENERATE_SYSTEM_PROMPT,
+  type GenerationClient,
+} from './_generate-prompts.js';
+import { completePrompt } from './_llm.js';
+import type { LlmCaller } from './_usage.js';
+import { analyzeForms } from './_forms.js';
+import { toRedirectSource } from './_redirects.js';
+import { fetchPage, type BusinessLocation, type NavItem, type OpeningHours } from './_scraper.js';
+import {
+  extractBrand,
+  brandToThemeVariables,
+  brandFonts,
+  fontThemeVariables,
+  applyThemeVariables,
+  type BrandProfile,
+} from './_brand.js';
+import { validateWithRepair, repairPrompt, type ValidationResult } from './_validate.js';
+import {
+  parseSiteConfig,
+  siteConfigSource,
+  SERVICE_ICONS,
+  type SiteConfig,
+} from '../src/data/siteConfigSchema.js';
+
+/**
+ * Config step of site generation, shared by /api/generate-config and
+ * generation jobs (_generation.ts).
+ * NOT a route (underscore prefix).
+ *
+ * Generates siteConfig.ts + theme.css + vercel.json + filesToGenerate list.
+ * theme.css is seeded from the branding extracted from the client's current site.
+ * The model answers with SiteConfig JSON, checked against the schema in
+ * src/data/siteConfigSchema.ts (with model repairs); siteConfig.ts is then
+ * written from the parsed config by siteConfigSource().
+ */
+
+const SITE_CONFIG_JSON = 'siteConfig.json'; // the model's answer, named for validation and repair prompts
+
+const SITE_CONFIG_SYSTEM_PROMPT = `You are configuring an Astro website template for a new client.
+You will receive the template's site configuration, its TypeScript schema and client-specific data.
+Return ONLY a JSON object matching the SiteConfig type — no markdown fences, no explanation, no preamble.`;
+
+export interface GeneratedConfig {
+  siteConfig: string; // src/data/siteConfig.ts — the model's last JSON answer when validation failed
+  siteConfigData: SiteConfig | null;
+  themeCss: string;
+  vercelJson: string;
+  filesToGenerate: string[];
+  brand: BrandProfile | null;
+  validation: ValidationResult; // the SiteConfig JSON — callers reject the config when it is not valid
+}
+
+/** Callers check that the client has github_owner and github_repo first. */
+export async function generateConfig(
+  supabase: SupabaseClient,
+  client: GenerationClient,
+  caller: LlmCaller,
+): Promise<GeneratedConfig> {
+  const siteConfig = (client.site_config || {}) as Record<string, any>;
+  const brief = (siteConfig.creative_brief || {}) as Record<string, any>;
+  const scraped = (siteConfig.scraped_data || {}) as Record<string, any>;
+  const genSettings = (siteConfig.generation_settings || {}) as Record<string, any>;
+
+  // GitHub details for the client's repo
+  const githubOwner = client.github_owner;
+  const githubRepo = client.github_repo;
+  const githubToken = getEnv('GITHUB_TOKEN');
+
+  // ── Fetch template files from client's repo ──
+  const [templateSiteConfig, siteConfigSchemaSource, templateThemeCss] = await Promise.all([
+    fetchFileFromGitHub('src/data/siteConfig.ts', githubOwner, githubRepo, githubToken),
+    fetchFileFromGitHub('src/data/siteConfigSchema.ts', githubOwner, githubRepo, githubToken),
+    fetchFileFromGitHub('src/styles/theme.css', githubOwner, githubRepo, githubToken),
+  ]);
+
+  // ── Generate siteConfig ──
+  const scrapedGlobal = scraped.global || {};
+  const phones: string[] = scrapedGlobal.phone_numbers || [];
+  const emails: string[] = scrapedGlobal.email_addresses || [];
+  const physicalAddress: string | null = scrapedGlobal.physical_address || null;
+  const locations: BusinessLocation[] = scrapedGlobal.locations || [];
+  const openingHours: OpeningHours | null = scrapedGlobal.opening_hours || null;
+  const socialLinks: string[] = scrapedGlobal.social_links || [];
+  const navigation: NavItem[] = scrapedGlobal.navigation || [];
+
+  // Extract homepage content for location context
+  const scrapedPages: any[] = scraped.pages || [];
+  const homepage = scrapedPages.find((p: any) => p.slug === 'index') || scrapedPages[0];
+  const homepageText = (homepage?.content_markdown || homepage?.body_text || '').slice(0, 1500);
+  const forms = analyzeForms(scrapedPages);
+  const siteUrl = canonicalSiteUrl(scraped, homepage, siteConfig.current_website_url);
+  const locale: string = homepage?.og_tags?.['og:locale'] || 'en_US';
+
+  // Check if logo exists
+  const hasLogo = !!siteConfig.logo_data_url;
+  const logoDataUrl = siteConfig.logo_data_url as string | undefined;
+  let logoExt = 'png';
+  if (logoDataUrl) {
+    const mimeMatch = logoDataUrl.match(/^data:image\/([\w+]+);base64,/);
+    if (mimeMatch) {
+      logoExt = mimeMatch[1] === 'svg+xml' ? 'svg' : mimeMatch[1];
+    }
+  }
+
+  const siteConfigPrompt = `I need you to customize this Astro site configuration for a ${brief.business_type || 'local business'} called "${client.client_name}".
+
+TEMPLATE CONFIG (src/data/siteConfig.ts — the values the template ships with):
+\`\`\`typescript
+${templateSiteConfig}
+\`\`\`
+
+SCHEMA (src/data/siteConfigSchema.ts — your answer must match the SiteConfig type and its runtime schema):
+\`\`\`typescript
+${siteConfigSchemaSource}
+\`\`\`
+
+CLIENT DATA:
+- Business name: ${client.client_name}
+- Business type: ${brief.business_type || 'local business'}
+- Tagline/design direction: ${brief.design_direction || 'professional and modern'}
+- Phone: ${phones[0] || '(555) 000-0000'}
+- Email: ${emails[0] || `info@${githubRepo}.com`}
+- Site URL: ${siteUrl || 'unknown'}
+- Locale: ${locale}
+- Physical address: ${physicalAddress || 'Not available'}
+- Locations (from structured data): ${locations.length > 0 ? `\n${locations.map(formatLocation).join('\n')}` : 'none found'}
+- Opening hours: ${openingHours ? formatOpeningHours(openingHours) : 'none found'}
+- Social links: ${socialLinks.length > 0 ? socialLinks.join(', ') : 'none found'}
+- Current site menu: ${navigation.length > 0 ? `\n${formatNavigation(navigation)}` : 'none found'}
+- Services to feature: ${JSON.stringify(brief.services_to_feature || [])}
+- Key CTAs: ${JSON.stringify(brief.calls_to_action || [])}
+${hasLogo ? `- Logo file: /logo.${logoExt} (already committed to public/ — add logoPath: "/logo.${logoExt}" to the config)` : ''}
+
+${forms.length > 0 ? `FORMS ON THE CURRENT SITE (mapped to the siteConfig form schema):
+\`\`\`json
+${JSON.stringify(forms, null, 2)}
+\`\`\`
+
+` : ''}SCRAPED HOMEPAGE CONTENT (use this to determine correct city/state/location):
+${homepageText}
+
+IMPORTANT:
+- Use the SCRAPED content to determine the correct city, state, and location — do NOT keep the template defaults.
+- The address object must reflect the client's actual location from the scraped data, not the template placeholder.
+- Add one \`locations\` entry per location listed above (or a single entry matching \`address\` if none were found). Mark exactly one as primary: true — the headquarters or the address on the homepage — and keep \`address\` and \`phone\` in sync with it. Include geo only when coordinates were given.
+- \`hours\`: ${openingHours ? 'fill weekly (24h "HH:MM", [] for closed days) and exceptions from the opening hours above' : 'no hours were found — set hours to null. Do NOT invent opening hours'}. Set timeZone to the IANA zone for the business's city (e.g. "America/Chicago"). Give a location its own hours only when they differ from the main hours.
+- \`siteUrl\`: ${siteUrl ? `set to exactly "${siteUrl}" — canonical and share URLs are built from it, so keep its www / non-www host` : 'keep the template value'}. Set \`locale\` to "${locale}".
+- \`fonts\`: families available on Google Fonts that suit the design direction (or keep the template's); the site loads them from there.
+- \`navigation\`: ${navigation.length > 0 ? 'follow the current site menu above — same top-level order and dropdown grouping, with tidied labels' : 'keep the template menu'}. Only link to routes the new site has: "/", "/#about", "/#services", "/contact/" and "/services/{slug}/" for each service; drop items with no equivalent (their old URLs get redirects). The Services item's children must list every service, in the same order as \`services\`.
+- \`forms\`: ${forms.length > 0 ? 'use the forms above, in that order. You may polish titles, labels and submit text, but keep every field with its name, type, required flag and options so the new site collects the same information' : 'no forms were found — keep the template contact form'}.
+${brief.services_to_feature && brief.services_to_feature.length > 0 ? `- Create one service entry for each of these services: ${brief.services_to_feature.join(', ')}.
+  Each service needs a slug (kebab-case, e.g. "pressure-washing"), a title, a short description, and an icon.
+  Available icons: ${SERVICE_ICONS.map((icon) => `"${icon}"`).join(', ')}.` : ''}
+
+Customize this configuration with real client data. Service slugs must be unique.
+Return the complete SiteConfig as a JSON object.`;
+
+  const { content: siteConfigJson, validation } = await validateWithRepair(
+    SITE_CONFIG_JSON,
+    stripFences(await completePrompt('site-config', SITE_CONFIG_SYSTEM_PROMPT, siteConfigPrompt, caller)),
+    { schema: (value) => parseSiteConfig(value).errors },
+    async (content, diagnostics) =>
+      stripFences(
+        await completePrompt(
+          'repair',
+          SITE_CONFIG_SYSTEM_PROMPT,
+          repairPrompt(SITE_CONFIG_JSON, content, diagnostics),
+          caller,
+        ),
+      ),
+  );
+
+  const siteConfigData = validation.valid ? parseSiteConfig(JSON.parse(siteConfigJson)).config : null;
+  if (!siteConfigData) {
+    return {
+      siteConfig: siteConfigJson,
+      siteConfigData: null,
+      themeCss: '',
+      vercelJson: '',
+      filesToGenerate: [],
+      brand: null,
+      validation,
+    };
+  }
+
+  // ── Extract current branding from the existing site (non-fatal) ──
+  let brand: BrandProfile | null = null;
+  try {
+    const homepageHtml = await loadHomepageHtml(supabase, homepage, siteConfig.current_website_url);
+    if (homepageHtml) {
+      brand = await extractBrand(homepageHtml.html, homepageHtml.url);
+    }
+  } catch (err) {
+    console.error('Brand extraction failed (non-fatal):', (err as Error).message);
+  }
+  const brandVariables = brand ? brandToThemeVariables(brand) : {};
+  const hasBrandVariables = Object.keys(brandVariables).length > 0;
+  if (brand && wantsCurrentBranding(brief)) {
+    siteConfigData.fonts = await brandFonts(brand, siteConfigData.fonts) || siteConfigData.fonts;
+  }
+  const generatedSiteConfig = siteConfigSource(siteConfigData);
+
+  // ── Generate theme.css ──
+  let generatedThemeCss: string;
+  if (hasBrandVariables && wantsCurrentBranding(brief)) {
+    // Keep current branding: apply the extracted values directly, no model call
+    generatedThemeCss = applyThemeVariables(templateThemeCss, brandVariables);
+  } else {
+    const themeCssPrompt = `I need you to customize this CSS theme file for a ${brief.business_type || 'local business'} called "${client.client_name}".
+
+TEMPLATE FILE (src/styles/theme.css):
+\`\`\`css
+${templateThemeCss}
+\`\`\`
+
+CLIENT PREFERENCES:
+- Color preferences: ${brief.color_preferences || 'professional, modern colors appropriate for the business type'}
+- Design direction: ${brief.design_direction || 'clean and professional'}
+- Business type: ${brief.business_type || 'local business'}
+${hasBrandVariables ? `
+CURRENT BRANDING (extracted from their existing website's stylesheets):
+${Object.entries(brandVariables).map(([name, value]) => `- ${name}: ${value}`).join('\n')}
+Use these as the starting point unless the color preferences ask for a change.
+` : ''}
+Update the CSS custom property values in the :root block to match the client's brand.
+Keep the @theme block structure identical — only change the color values in :root.
+Return the complete file.`;
+
+    generatedThemeCss = stripFences(
+      await completePrompt('theme', GENERATE_SYSTEM_PROMPT, themeCssPrompt, caller),
+    );
+  }
+  // Font variables always name the families BaseLayout loads from siteConfig.fonts
+  generatedThemeCss = applyThemeVariables(generatedThemeCss, fontThemeVariables(siteConfigData.fonts));
+
+  const serviceSlugs = siteConfigData.services.map((service) => service.slug);
+
+  // ── Build vercel.json ──
+  const redirectMap: Array<{ old_path: string; new_path: string }> =
+    genSettings.redirect_map || [];
+  const vercelJsonContent = buildVercelJson(redirectMap, siteConfigData.noindexStaging);
+
+  // ── Compute filesToGenerate ──
+  const filesToGenerate = [
+    'src/components/sections/Navigation.astro',
+    'src/components/sections/Hero.astro',
+    'src/components/sections/Services.astro',
+    'src/components/sections/About.astro',
+    'src/components/sections/Stats.astro',
+    'src/components/sections/HowItWorks.astro',
+    'src/components/sections/Testimonials.astro',
+    'src/components/sections/FAQ.astro',
+    'src/components/sections/CTABanner.astro',
+    'src/components/sections/Footer.astro',
+    'src/pages/index.astro',
+    'src/pages/contact.astro',
+    // Service pages all render from src/pages/services/[slug].astro
+    ...serviceSlugs.map((slug) => `src/data/services/${slug}.ts`),
+  ];
+
+  return {
+    siteConfig: generatedSiteConfig,
+    siteConfigData,
+    themeCss: generatedThemeCss,
+    vercelJson: vercelJsonContent,
+    filesToGenerate,
+    brand,
+    validation,
+  };
+}
+
+// ── Helpers ──
+
+/**
+ * The brief asks to keep the existing look, e.g. "keep current branding"
+ * or "same colors as our current site".
+ */
+function wantsCurrentBranding(brief: Record<string, any>): boolean {
+  const text = [brief.color_preferences, brief.design_direction, brief.notes].filter(Boolean).join(' ');
+  return /keep (?:the |our |their )?(?:current|existing) (?:brand|branding|colou?rs)|same colou?rs as (?:our|their|the) (?:current|existing)/i.test(text);
+}
+
+/**
+ * Homepage HTML for brand extraction: the stored scrape snapshot if there is
+ * one, otherwise a fresh fetch of the current website.
+ */
+async function loadHomepageHtml(
+  supabase: SupabaseClient,
+  homepage: { url?: string; snapshot_path?: string | null } | undefined,
+  currentWebsiteUrl: string | undefined,
+): Promise<{ html: string; url: string } | null> {
+  if (homepage?.snapshot_path && homepage.url) {
+    const { data } = await supabase.storage.from('site-snapshots').download(homepage.snapshot_path);
+    if (data) return { html: await data.text(), url: homepage.url };
+  }
+
+  if (!currentWebsiteUrl) return null;
+  const url = currentWebsiteUrl.startsWith('http') ? currentWebsiteUrl : `https://${currentWebsiteUrl}`;
+  const result = await fetchPage(url);
+  return result.html ? { html: result.html, url: result.finalUrl } : null;
+}
+
+/**
+ * Origin the new site should declare as canonical: the old site's domain,
+ * on https, with the www / non-www host it preferred (its homepage
+ * canonical tag when it has one, else the crawl's canonical_prefix).
+ */
+function canonicalSiteUrl(
+  scraped: Record<string, any>,
+  homepage: { canonical?: string | null } | undefined,
+  currentWebsiteUrl: string | undefined,
+): string | null {
+  const source = scraped.source_url || currentWebsiteUrl;
+  if (!source) return null;
+
+  let host: string;
+  try {
+    host = new URL(source.startsWith('http') ? source : `https://${source}`).hostname;
+  } catch {
+    return null;
+  }
+
+  let prefersWww = scraped.canonical_prefix ? scraped.canonical_prefix === 'www' : host.startsWith('www.');
+  try {
+    if (homepage?.canonical) {
+      const canonicalHost = new URL(homepage.canonical, `https://${host}`).hostname;
+      if (canonicalHost.replace(/^www\./, '') === host.replace(/^www\./, '')) {
+        prefersWww = canonicalHost.startsWith('www.');
+      }
+    }
+  } catch { /* keep the crawl's preference */ }
+
+  const bare = host.replace(/^www\./, '');
+  return `https://${prefersWww ? `www.${bare}` : bare}`;
+}
+
+function formatOpeningHours(hours: OpeningHours): string {
+  const days = Object.entries(hours.weekly).map(([day, ranges]) =>
+    `${day} ${ranges.length > 0 ? ranges.map((r) => `${r.opens}-${r.closes}`).join(', ') : 'closed'}`,
+  );
+  const exceptions = hours.exceptions.map((e) =>
+    `${e.date} ${e.hours.length > 0 ? e.hours.map((r) => `${r.opens}-${r.closes}`).join(', ') : 'closed'}`,
+  );
+  return [days.join('; '), exceptions.length > 0 ? `exceptions: ${exceptions.join('; ')}` : ''].filter(Boolean).join(' — ');
+}
+
+function formatLocation(location: BusinessLocation): string {
+  const address = [location.street, location.city, location.state, location.zip].filter(Boolean).join(', ');
+  const details = [
+    location.phone && `phone ${location.phone}`,
+    location.geo && `geo ${location.geo.lat},${location.geo.lng}`,
+    location.hours && `hours ${formatOpeningHours(location.hours)}`,
+  ].filter(Boolean);
+  return `  - ${location.name || 'Unnamed'}: ${address}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+}
+
+function formatNavigation(items: NavItem[], indent = '  '): string {
+  return items
+    .map((item) => {
+      const line = `${indent}- ${item.text}${item.href ? ` (${item.href})` : ''}`;
+      return item.children?.length ? `${line}\n${formatNavigation(item.children, `${indent}  `)}` : line;
+    })
+    .join('\n');
+}
+
+// Vercel deployment URLs (previews, and production's own *.vercel.app alias)
+const STAGING_NOINDEX_HEADERS = {
+  source: '/(.*)',
+  has: [{ type: 'host', value: '.*\\.vercel\\.app' }],
+  headers: [{ key: 'X-Robots-Tag', value: 'noindex, nofollow' }],
+};
+
+function buildVercelJson(
+  redirectMap: Array<{ old_path: string; new_path: string }>,
+  noindexStaging: boolean,
+): string {
+  const redirects = redirectMap
+    .filter((r) => r.old_path && r.new_path && r.old_path !== r.new_path) // Skip incomplete and self-redirects
+    .map((r) => ({
+      source: toRedirectSource(r.old_path),
+      destination: r.new_path,
+      statusCode: 301,
+    }));
+
+  return JSON.stringify({
+    redirects,
+    ...(noindexStaging ? { headers: [STAGING_NOINDEX_HEADERS] } : {}),
+  }, null, 2);
+}
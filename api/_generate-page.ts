@@ -0,0 +1,335 @@
+import {
+  getEnv,
+  fetchFileFromGitHub,
+  stripFences,
+  GENERATE_SYSTEM_PROMPT,
+  type GenerationClient,
+} from './_generate-prompts.js';
+import { completePrompt } from './_llm.js';
+import type { LlmCaller } from './_usage.js';
+import { rewriteImageUrls, type HarvestedImage } from './_images.js';
+import type { Testimonial } from './_scraper.js';
+import { validateWithRepair, repairPrompt, type ValidationResult } from './_validate.js';
+
+/**
+ * Page step of site generation, shared by /api/generate-page and
+ * generation jobs (_generation.ts).
+ * NOT a route (underscore prefix).
+ *
+ * Customizes one template file from the client's repo with the generated
+ * siteConfig, the scraped content of the matching old page and the brief,
+ * then validates it (_validate.ts), sending errors back to the model to repair.
+ */
+
+interface PageData {
+  url: string;
+  slug: string;
+  title?: string;
+  meta_description?: string;
+  headings?: Array<{ level: number; text: string }>;
+  body_text?: string;
+  content_markdown?: string;
+  images?: Array<{ src: string; alt: string }>;
+  testimonials?: Testimonial[];
+}
+
+/**
+ * The generated content for one file in filesToGenerate, with its validation.
+ * Callers check that the client has github_owner and github_repo first, and
+ * reject the file when validation.valid is false.
+ */
+export async function generatePage(
+  client: GenerationClient,
+  filePath: string,
+  siteConfigContent: string,
+  caller: LlmCaller,
+): Promise<{ content: string; validation: ValidationResult }> {
+  const siteConfig = (client.site_config || {}) as Record<string, any>;
+  const brief = (siteConfig.creative_brief || {}) as Record<string, any>;
+  const scraped = (siteConfig.scraped_data || {}) as Record<string, any>;
+  const genSettings = (siteConfig.generation_settings || {}) as Record<string, any>;
+  const preserveMeta = genSettings.preserve_meta === true;
+  const harvestedImages: HarvestedImage[] = siteConfig.harvested_images?.images || [];
+
+  const githubOwner = client.github_owner;
+  const githubRepo = client.github_repo;
+  const githubToken = getEnv('GITHUB_TOKEN');
+
+  // ── Fetch template file ──
+  let templateContent: string;
+  try {
+    templateContent = await fetchFileFromGitHub(filePath, githubOwner, githubRepo, githubToken);
+  } catch {
+    // For new services, fetch the service-one content file as a base
+    if (filePath.startsWith('src/data/services/')) {
+      templateContent = await fetchFileFromGitHub(
+        'src/data/services/service-one.ts',
+        githubOwner,
+        githubRepo,
+        githubToken,
+      );
+    } else {
+      throw new Error(`Template file not found: ${filePath}`);
+    }
+  }
+
+  // ── Find matching scraped content ──
+  const scrapedPages: PageData[] = scraped.pages || [];
+  const scrapedGlobal = scraped.global || {};
+  const matchedPage = findMatchingScrapedPage(scrapedPages, filePath);
+
+  // ── Collect all testimonials from all pages (widgets repeat site-wide) ──
+  const allTestimonials: Testimonial[] = [];
+  const seenQuotes = new Set<string>();
+  for (const page of scrapedPages) {
+    for (const t of page.testimonials || []) {
+      if (seenQuotes.has(t.quote)) continue;
+      seenQuotes.add(t.quote);
+      allTestimonials.push(t);
+    }
+  }
+
+  // ── Build prompt ──
+  let userPrompt = `I need you to customize this template file for a ${brief.business_type || 'local business'} called "${client.client_name}".
+
+TEMPLATE FILE (${filePath}):
+\`\`\`
+${templateContent}
+\`\`\`
+
+SITE CONFIG (already generated — reference these values via import):
+\`\`\`typescript
+${siteConfigContent}
+\`\`\`
+`;
+
+  // Add matched scraped content
+  if (matchedPage) {
+    userPrompt += `
+EXISTING WEBSITE CONTENT (scraped from their current site):
+- Page title: ${matchedPage.title || 'N/A'}
+- Meta description: ${matchedPage.meta_description || 'N/A'}
+- Headings: ${matchedPage.headings?.map((h) => `H${h.level}: ${h.text}`).join(', ') || 'N/A'}
+- Content (Markdown):
+${(matchedPage.content_markdown || matchedPage.body_text || '').slice(0, 4000)}
+- Images: ${matchedPage.images?.map((img) => `${localImagePath(img.src, harvestedImages)} (${img.alt})`).join(', ') || 'none'}
+`;
+  }
+
+  // Add testimonials for the Testimonials section
+  if (filePath.includes('Testimonials') && allTestimonials.length > 0) {
+    userPrompt += `
+SCRAPED TESTIMONIALS:
+${allTestimonials.map(formatTestimonial).join('\n')}
+`;
+  }
+
+  // Add creative brief context
+  userPrompt += `
+CREATIVE BRIEF:
+- Design direction: ${brief.design_direction || 'professional and modern'}
+- Target audience: ${brief.target_audience || 'general audience'}
+- Key CTAs: ${JSON.stringify(brief.calls_to_action || [])}
+- Special features: ${JSON.stringify(brief.special_features || [])}
+`;
+
+  // Preserve meta if enabled
+  if (preserveMeta && matchedPage) {
+    if (matchedPage.title || matchedPage.meta_description) {
+      userPrompt += `
+IMPORTANT: Preserve these exact SEO meta values (as the BaseLayout title and description props):
+${matchedPage.title ? `- Meta title: "${matchedPage.title}"` : ''}
+${matchedPage.meta_description ? `- Meta description: "${matchedPage.meta_description}"` : ''}
+`;
+    }
+  }
+
+  // File-specific instructions
+  userPrompt += getFileSpecificInstructions(filePath, brief, scrapedGlobal);
+
+  userPrompt += `
+Customize this template with real client content. Return the complete file.`;
+
+  // ── Call the model ──
+  let generated = stripFences(await completePrompt('page', GENERATE_SYSTEM_PROMPT, userPrompt, caller));
+
+  // Retry once if result looks obviously wrong (empty or too short)
+  if (generated.length < 50) {
+    generated = stripFences(await completePrompt('page', GENERATE_SYSTEM_PROMPT, userPrompt, caller));
+  }
+
+  // ── Post-process: fix common Claude import mistakes, then point any
+  //    remaining old-site image URLs at harvested copies ──
+  const postProcess = (content: string) =>
+    rewriteImageUrls(fixImportPaths(content, filePath), harvestedImages);
+
+  // ── Validate, feeding errors back to the model for repair ──
+  // Content files are type-checked against the generated siteConfig and its schema
+  const files: Record<string, string> = { 'src/data/siteConfig.ts': siteConfigContent };
+  if (filePath.endsWith('.ts')) {
+    files['src/data/siteConfigSchema.ts'] = await fetchFileFromGitHub(
+      'src/data/siteConfigSchema.ts',
+      githubOwner,
+      githubRepo,
+      githubToken,
+    );
+  }
+  return validateWithRepair(
+    filePath,
+    postProcess(generated),
+    { files },
+    async (content, diagnostics) =>
+      postProcess(stripFences(
+        await completePrompt('repair', GENERATE_SYSTEM_PROMPT, repairPrompt(filePath, content, diagnostics), caller),
+      )),
+  );
+}
+
+// ── Helpers ──
+
+function findMatchingScrapedPage(
+  pages: PageData[],
+  filePath: string,
+): PageData | null {
+  // Section components → use homepage
+  if (filePath.includes('components/sections/')) {
+    return pages.find((p) => p.slug === 'index') || pages[0] || null;
+  }
+
+  // index.astro → homepage
+  if (filePath.endsWith('index.astro') && !filePath.includes('services')) {
+    return pages.find((p) => p.slug === 'index') || pages[0] || null;
+  }
+
+  // contact.astro → contact page
+  if (filePath.includes('contact')) {
+    return pages.find((p) => p.slug.includes('contact')) || null;
+  }
+
+  // Service content files → match by slug
+  const serviceSlugMatch = filePath.match(/^src\/data\/services\/(.+)\.ts$/);
+  if (serviceSlugMatch) {
+    const serviceSlug = serviceSlugMatch[1];
+    return (
+      pages.find(
+        (p) =>
+          p.slug.includes(serviceSlug) ||
+          p.title?.toLowerCase().includes(serviceSlug.replace(/-/g, ' ')),
+      ) || null
+    );
+  }
+
+  return null;
+}
+
+function formatTestimonial(t: Testimonial): string {
+  const attribution = [t.author_name || 'Anonymous', t.author_title].filter(Boolean).join(', ');
+  const rating = t.rating ? ` (${t.rating}/5 stars)` : '';
+  return `- "${t.quote}" — ${attribution}${rating}`;
+}
+
+/** Local /images/ path for a scraped image, or the original URL if it wasn't harvested. */
+function localImagePath(src: string, harvestedImages: HarvestedImage[]): string {
+  return harvestedImages.find((img) => img.sources.includes(src))?.public_path || src;
+}
+
+function getFileSpecificInstructions(
+  filePath: string,
+  brief: Record<string, any>,
+  scrapedGlobal: Record<string, any>,
+): string {
+  if (filePath.includes('Hero.astro')) {
+    return `
+INSTRUCTIONS: Write a compelling headline and subtext. Use the scraped H1 and homepage content as inspiration. Include strong CTA buttons linking to /contact/ and /services/{first-service-slug}/.`;
+  }
+
+  if (filePath.includes('Navigation.astro')) {
+    return `
+INSTRUCTIONS: Menu items come from siteConfig.navigation — keep rendering them from that data (dropdowns for items with children) and do NOT hard-code links.
+If siteConfig has a logoPath property, display the logo as an <img> tag: <img src={siteConfig.logoPath} alt={siteConfig.businessName} class="h-10 w-auto" />. Otherwise use the business name as text.`;
+  }
+
+  if (filePath.includes('Services.astro')) {
+    return `
+INSTRUCTIONS: Show all services from siteConfig with their titles, descriptions, and icons. Each service card should link to /services/{slug}/.`;
+  }
+
+  if (filePath.includes('About.astro')) {
+    return `
+INSTRUCTIONS: Write authentic about section content based on the scraped about page or homepage content. Highlight the business's experience and values.`;
+  }
+
+  if (filePath.includes('Stats.astro')) {
+    return `
+INSTRUCTIONS: Create realistic statistics relevant to a ${brief.business_type || 'local business'}. Use numbers that feel authentic (years in business, customers served, etc.).`;
+  }
+
+  if (filePath.includes('Testimonials.astro')) {
+    return `
+INSTRUCTIONS: Display the scraped testimonials if provided, mapping each to the template's quote, name, title and rating fields. Keep the quotes and names verbatim. Include a rating only when the scraped testimonial has one — leave the rating field out otherwise, never guess one. Use a short generic title (e.g. "Customer") when none is given. If none exist, create 3 realistic testimonials appropriate for this business type.`;
+  }
+
+  if (filePath.includes('FAQ.astro')) {
+    return `
+INSTRUCTIONS: Create 5-6 relevant FAQs for a ${brief.business_type || 'local business'}. Use real business details from siteConfig. Keep the <JsonLd data={faqPageSchema(faqs)} /> line so the FAQs stay in the page's structured data.`;
+  }
+
+  if (filePath.includes('Footer.astro')) {
+    return `
+INSTRUCTIONS: Include all contact info from siteConfig, social links, service quick links, and a copyright line. Render every entry in siteConfig.locations (primary first, labelled when there is more than one) and, when siteConfig.hours is not null, the BusinessHours component with tone="dark". If siteConfig has a logoPath, display the logo image in the footer.`;
+  }
+
+  if (filePath.includes('contact.astro')) {
+    return `
+INSTRUCTIONS: Render every form in siteConfig.forms with the ContactForm component (src/components/ui/ContactForm.astro) — do NOT hand-write form fields. Include phone, email, and every entry in siteConfig.locations with its address and a directions link, marking the primary location. Render hours with the BusinessHours component (src/components/ui/BusinessHours.astro) from siteConfig.hours, and only when it is not null — never hard-code or invent hours.`;
+  }
+
+  if (filePath.startsWith('src/data/services/')) {
+    const slug = filePath.match(/services\/(.+)\.ts$/)?.[1] || '';
+    return `
+INSTRUCTIONS: This is the page content for the "${slug.replace(/-/g, ' ')}" service (siteConfig.services slug "${slug}"), rendered by src/pages/services/[slug].astro — it is a TypeScript data file, not an Astro page. Write detailed content for it: hero text, overview paragraphs, key features/benefits, process steps, and FAQs (they also become the page's FAQPage structured data). The title and description come from siteConfig, so don't repeat them here. Keep the ServiceDetails type, the import from '../siteConfig' and the default export.`;
+  }
+
+  return '';
+}
+
+/**
+ * Fix common import path mistakes Claude makes.
+ * Claude sometimes invents paths like '../../config', '../../config/siteConfig',
+ * '../../config/site.config', etc. Normalize them to the correct paths.
+ */
+function fixImportPaths(content: string, filePath: string): string {
+  // Determine the correct relative path to siteConfig based on file location
+  const isSection = filePath.includes('components/sections/');
+  const isPage = filePath.startsWith('src/pages/');
+  const isServicePage = filePath.includes('pages/services/');
+  const isServiceData = filePath.startsWith('src/data/services/');
+
+  let correctSiteConfigPath: string;
+  if (isSection) {
+    correctSiteConfigPath = '../../data/siteConfig';
+  } else if (isServicePage) {
+    correctSiteConfigPath = '../../data/siteConfig';
+  } else if (isServiceData) {
+    correctSiteConfigPath = '../siteConfig';
+  } else if (isPage) {
+    correctSiteConfigPath = '../data/siteConfig';
+  } else {
+    return content; // Unknown location, don't touch
+  }
+
+  // Fix any wrong siteConfig import path
+  // Matches: from '../../config', from '../../config/siteConfig', from '../config/site.config', etc.
+  const siteConfigImportRegex = /from\s+['"]([^'"]*(?:config|siteConfig|site\.config)[^'"]*)['"]/g;
+  content = content.replace(siteConfigImportRegex, (match, importPath) => {
+    // Don't fix if it's already the correct path
+    if (importPath === correctSiteConfigPath) return match;
+    // Only fix if it looks like a siteConfig import (not some other config)
+    if (/(?:site[._-]?config|\/config(?:\/|$))/i.test(importPath)) {
+      return `from '${correctSiteConfigPath}'`;
+    }
+    return match;
+  });
+
+  return content;
+}
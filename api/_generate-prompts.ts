@@ -3,6 +3,24 @@
  * NOT a route (underscore prefix).
  */
 
+// ── Types ──
+
+/** A file to write to the client repo via /api/generate-commit. */
+export interface FileEntry {
+  path: string;
+  content: string;
+  encoding?: 'utf-8' | 'base64';
+}
+
+/** The ai_website_clients columns the generation steps read. */
+export interface GenerationClient {
+  id: string;
+  client_name: string;
+  github_owner: string;
+  github_repo: string;
+  site_config: Record<string, any> | null;
+}
+
 // ── Environment variables ──
 
 export function getEnv(key: string): string {
@@ -36,7 +54,7 @@ export async function fetchFileFromGitHub(
   return response.text();
 }
 
-// ── Claude API call (raw string response) ──
+// ── Generation system prompt ──
 
 export const GENERATE_SYSTEM_PROMPT = `You are a web developer customizing an Astro website template for a new client.
 You will receive a template file and client-specific data.
@@ -45,6 +63,7 @@ Return ONLY the complete file content — no markdown fences, no explanation, no
 Rules:
 - Keep all import statements from the template
 - Keep BaseLayout wrapper and data-section attributes
+- Set page SEO through BaseLayout props (title, description; canonical, ogType, image only when needed) — never add <head> tags yourself
 - Keep CSS custom property usage (var(--color-primary) etc.)
 - Use siteConfig references for phone, email, address, services
 - Replace ALL placeholder text with real client content
@@ -52,45 +71,6 @@ Rules:
 - Do not add external dependencies or npm packages
 - Keep code clean, well-formatted, and production-ready`;
 
-export async function callClaude(
-  systemPrompt: string,
-  userPrompt: string,
-): Promise<string> {
-  const apiKey = getEnv('OPENROUTER_API_KEY');
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-      'HTTP-Referer': 'https://bochi-web.com',
-      'X-Title': 'Bochi Web Site Generator',
-    },
-    body: JSON.stringify({
-      model: 'anthropic/claude-sonnet-4',
-      max_tokens: 8192,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} — ${errorText}`);
-  }
-
-  const data = await response.json();
-  const text: string | undefined = data.choices?.[0]?.message?.content;
-
-  if (!text) {
-    throw new Error('Empty response from OpenRouter API');
-  }
-
-  return text;
-}
-
 // ── Strip markdown fences ──
 
 export function stripFences(content: string): string {
@@ -0,0 +1,453 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FileEntry, GenerationClient } from './_generate-prompts.js';
+import { generateConfig, type GeneratedConfig } from './_generate-config.js';
+import { generatePage } from './_generate-page.js';
+import { commitGeneratedFiles } from './_generate-commit.js';
+import { formatDiagnostics, MAX_REPAIR_ATTEMPTS, type ValidationResult } from './_validate.js';
+import { downloadHarvestedImages, restoreImageUrls, type HarvestedImage } from './_images.js';
+import { MAX_COMPLETION_MS } from './_llm.js';
+import type { LlmCaller } from './_usage.js';
+
+/**
+ * Generation job engine shared by the generation-* endpoints.
+ * NOT a route (underscore prefix).
+ *
+ * A job runs the steps the Command Center used to drive from the browser —
+ * config, one model call per file in filesToGenerate, then the commit —
+ * server-side, one bounded chunk per invocation. The client record is
+ * snapshotted when the job starts, and the config, every file's status,
+ * output and error are stored in Supabase (ai_website_generation_jobs /
+ * ai_website_generation_files), so a run survives a closed tab and failed
+ * files can be retried on their own before anything is committed.
+ */
+
+// ── Types ──
+
+export type GenerationStatus = 'running' | 'failed' | 'completed';
+export type GenerationStep = 'config' | 'pages' | 'commit';
+export type GenerationFileStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  client_id: string;
+  status: GenerationStatus;
+  step: GenerationStep;
+  inputs: GenerationClient; // client record as it was when the job started
+  config: GeneratedConfig | null;
+  files_total: number;
+  files_done: number;
+  files_failed: number;
+  commit_sha: string | null;
+  commit_url: string | null;
+  error: string | null;
+  claimed_at: string | null; // set while an invocation runs the config or commit step
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface GenerationFile {
+  id: number;
+  job_id: string;
+  path: string;
+  status: GenerationFileStatus;
+  content: string | null;
+  error: string | null;
+  attempts: number;
+  validation: ValidationResult | null;
+  claimed_at: string | null;
+}
+
+// ── Limits ──
+
+const PAGE_BATCH = 3; // generated in parallel — one round takes about one model call
+const MAX_AUTO_ATTEMPTS = 2; // a failing file is retried once before it's marked failed
+// The longest chunk is the config step: the site-config call, its repairs and
+// the theme call, each retried by complete(). A claim older than that died
+// mid-invocation — reclaiming one sooner would pay for the same work twice.
+const STALE_CLAIM_MS = (MAX_REPAIR_ATTEMPTS + 2) * MAX_COMPLETION_MS + 60_000;
+
+const JOBS_TABLE = 'ai_website_generation_jobs';
+const FILES_TABLE = 'ai_website_generation_files';
+
+// ── Job lifecycle ──
+
+export async function createGenerationJob(
+  supabase: SupabaseClient,
+  params: { client: GenerationClient; createdBy: string },
+): Promise<GenerationJob> {
+  const { data: job, error } = await supabase
+    .from(JOBS_TABLE)
+    .insert({
+      client_id: params.client.id,
+      status: 'running',
+      step: 'config',
+      inputs: params.client,
+      files_total: 0,
+      files_done: 0,
+      files_failed: 0,
+      created_by: params.createdBy,
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    throw new Error(`Failed to create generation job: ${error?.message || 'no row returned'}`);
+  }
+  return job as GenerationJob;
+}
+
+export async function getGenerationJob(supabase: SupabaseClient, jobId: string): Promise<GenerationJob | null> {
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('id', jobId)
+    .single();
+  if (error || !data) return null;
+  return data as GenerationJob;
+}
+
+/** The client's job that is still running, if any — one run per client at a time. */
+export async function findRunningGenerationJob(
+  supabase: SupabaseClient,
+  clientId: string,
+): Promise<GenerationJob | null> {
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('status', 'running')
+    .order('created_at', { ascending: false })
+    .limit(1);
+  return (data?.[0] as GenerationJob | undefined) || null;
+}
+
+export async function updateGenerationJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  fields: Partial<GenerationJob>,
+): Promise<GenerationJob> {
+  const { data, error } = await supabase
+    .from(JOBS_TABLE)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select()
+    .single();
+  if (error || !data) {
+    throw new Error(`Failed to update generation job: ${error?.message || 'no row returned'}`);
+  }
+  return data as GenerationJob;
+}
+
+/** Per-file state, in filesToGenerate order. File contents only when asked for. */
+export async function listGenerationFiles(
+  supabase: SupabaseClient,
+  jobId: string,
+  withContent = false,
+): Promise<Partial<GenerationFile>[]> {
+  const columns = withContent
+    ? 'path, status, error, attempts, validation, content'
+    : 'path, status, error, attempts, validation';
+  const { data, error } = await supabase
+    .from(FILES_TABLE)
+    .select(columns)
+    .eq('job_id', jobId)
+    .order('id', { ascending: true })
+    .returns<Partial<GenerationFile>[]>();
+  if (error) {
+    throw new Error(`Failed to load generation files: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Put a failed job back to running. Failed files (all of them, or only
+ * `paths`) are queued again with a fresh attempt count; a failed config or
+ * commit step simply runs again. Returns the job and how many files were queued.
+ */
+export async function retryGenerationJob(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  paths?: string[],
+): Promise<{ job: GenerationJob; requeued: number }> {
+  let query = supabase
+    .from(FILES_TABLE)
+    .update({ status: 'queued', error: null, attempts: 0, claimed_at: null })
+    .eq('job_id', job.id)
+    .eq('status', 'failed');
+  if (paths && paths.length > 0) query = query.in('path', paths);
+
+  const { data: requeued, error } = await query.select('id');
+  if (error) {
+    throw new Error(`Failed to requeue generation files: ${error.message}`);
+  }
+
+  const updated = await updateGenerationJob(supabase, job.id, { status: 'running', error: null, claimed_at: null });
+  return { job: await refreshFileCounts(supabase, updated), requeued: requeued?.length || 0 };
+}
+
+// ── Step processing ──
+
+/**
+ * Advance a running job by one chunk: the config step, one batch of
+ * files, or the commit. Concurrent calls are safe — each chunk is claimed
+ * before it runs and a call that finds nothing to claim returns the job as is.
+ * Model calls are accounted to `caller`.
+ */
+export async function processGenerationStep(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  caller: LlmCaller,
+): Promise<GenerationJob> {
+  if (job.status !== 'running') return job;
+
+  switch (job.step) {
+    case 'config':
+      return runConfigStep(supabase, job, caller);
+    case 'pages':
+      return processPageBatch(supabase, job, caller);
+    case 'commit':
+      return runCommitStep(supabase, job);
+  }
+}
+
+/** Claim the config or commit step for this invocation; null if another one holds it. */
+async function claimJobStep(supabase: SupabaseClient, job: GenerationJob): Promise<GenerationJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const { data } = await supabase
+    .from(JOBS_TABLE)
+    .update({ claimed_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('step', job.step)
+    .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+    .select();
+  return (data?.[0] as GenerationJob | undefined) || null;
+}
+
+async function failGenerationJob(supabase: SupabaseClient, job: GenerationJob, message: string): Promise<GenerationJob> {
+  return updateGenerationJob(supabase, job.id, { status: 'failed', error: message, claimed_at: null });
+}
+
+async function runConfigStep(supabase: SupabaseClient, job: GenerationJob, caller: LlmCaller): Promise<GenerationJob> {
+  const claimed = await claimJobStep(supabase, job);
+  if (!claimed) return job;
+
+  let config: GeneratedConfig;
+  try {
+    config = await generateConfig(supabase, job.inputs, caller);
+  } catch (error) {
+    return failGenerationJob(supabase, job, `Config generation failed: ${(error as Error).message}`);
+  }
+  if (!config.validation.valid) {
+    return failGenerationJob(
+      supabase,
+      job,
+      `Generated SiteConfig failed validation:\n${formatDiagnostics('siteConfig.json', config.validation.diagnostics)}`,
+    );
+  }
+
+  // (job_id, path) is unique — a config step that ran twice queues each file once
+  const { error } = await supabase
+    .from(FILES_TABLE)
+    .upsert(
+      config.filesToGenerate.map((path) => ({ job_id: job.id, path, status: 'queued', attempts: 0 })),
+      { onConflict: 'job_id,path', ignoreDuplicates: true },
+    );
+  if (error) {
+    return failGenerationJob(supabase, job, `Failed to queue generation files: ${error.message}`);
+  }
+
+  return updateGenerationJob(supabase, job.id, {
+    step: 'pages',
+    config,
+    files_total: config.filesToGenerate.length,
+    claimed_at: null,
+  });
+}
+
+/**
+ * Generate one batch of queued files in parallel. A file that errors or
+ * still fails validation after its repairs goes back in the queue until it
+ * has used MAX_AUTO_ATTEMPTS; once no file is
+ * left to generate the job moves on to the commit, or fails if any file did.
+ */
+async function processPageBatch(supabase: SupabaseClient, job: GenerationJob, caller: LlmCaller): Promise<GenerationJob> {
+  // Release files claimed by an invocation that never finished
+  await supabase
+    .from(FILES_TABLE)
+    .update({ status: 'queued', claimed_at: null })
+    .eq('job_id', job.id)
+    .eq('status', 'generating')
+    .lt('claimed_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString());
+
+  // A failed read must not look like an empty queue — that would commit a half-generated site.
+  // The job is returned as is and the next invocation tries again.
+  const { data: queued, error: queuedError } = await supabase
+    .from(FILES_TABLE)
+    .select('id')
+    .eq('job_id', job.id)
+    .eq('status', 'queued')
+    .order('id', { ascending: true })
+    .limit(PAGE_BATCH);
+  if (queuedError) {
+    console.error(`Generation job ${job.id}: failed to load queued files:`, queuedError.message);
+    return job;
+  }
+
+  if (!queued || queued.length === 0) {
+    const { count: inFlight, error: inFlightError } = await supabase
+      .from(FILES_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', job.id)
+      .eq('status', 'generating');
+    if (inFlightError) {
+      console.error(`Generation job ${job.id}: failed to count files in flight:`, inFlightError.message);
+      return job;
+    }
+    if (inFlight && inFlight > 0) return job;
+    return finishPagesStep(supabase, job);
+  }
+
+  // Claim the rows — another invocation may have picked some of them already
+  const { data: claimed } = await supabase
+    .from(FILES_TABLE)
+    .update({ status: 'generating', claimed_at: new Date().toISOString() })
+    .in('id', queued.map((q) => q.id))
+    .eq('status', 'queued')
+    .select();
+
+  const files = (claimed || []) as GenerationFile[];
+  if (files.length === 0) return job;
+
+  await Promise.all(files.map(async (file) => {
+    const attempts = file.attempts + 1;
+    const retryStatus = attempts < MAX_AUTO_ATTEMPTS ? 'queued' : 'failed';
+    try {
+      const { content, validation } = await generatePage(job.inputs, file.path, job.config!.siteConfig, caller);
+      // A file that still fails validation after its repairs is kept for inspection, not committed
+      await supabase
+        .from(FILES_TABLE)
+        .update({
+          status: validation.valid ? 'done' : retryStatus,
+          content,
+          validation,
+          error: validation.valid ? null : `Failed validation:\n${formatDiagnostics(file.path, validation.diagnostics)}`,
+          attempts,
+          claimed_at: null,
+        })
+        .eq('id', file.id);
+    } catch (error) {
+      await supabase
+        .from(FILES_TABLE)
+        .update({ status: retryStatus, error: (error as Error).message, attempts, claimed_at: null })
+        .eq('id', file.id);
+    }
+  }));
+
+  return refreshFileCounts(supabase, job);
+}
+
+async function finishPagesStep(supabase: SupabaseClient, job: GenerationJob): Promise<GenerationJob> {
+  const updated = await refreshFileCounts(supabase, job);
+  if (updated.files_failed > 0) {
+    return failGenerationJob(
+      supabase,
+      updated,
+      `${updated.files_failed} of ${updated.files_total} files failed to generate — retry them to continue`,
+    );
+  }
+  return updateGenerationJob(supabase, job.id, { step: 'commit' });
+}
+
+async function refreshFileCounts(supabase: SupabaseClient, job: GenerationJob): Promise<GenerationJob> {
+  const countFiles = async (status: GenerationFileStatus) => {
+    const { count } = await supabase
+      .from(FILES_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', job.id)
+      .eq('status', status);
+    return count || 0;
+  };
+  const [done, failed] = await Promise.all([countFiles('done'), countFiles('failed')]);
+  return updateGenerationJob(supabase, job.id, { files_done: done, files_failed: failed });
+}
+
+/** Commit the config files, the logo, the harvested images and every generated file in one commit. */
+async function runCommitStep(supabase: SupabaseClient, job: GenerationJob): Promise<GenerationJob> {
+  const claimed = await claimJobStep(supabase, job);
+  if (!claimed) return job;
+
+  const { data: generated, error } = await supabase
+    .from(FILES_TABLE)
+    .select('path, content')
+    .eq('job_id', job.id)
+    .eq('status', 'done')
+    .order('id', { ascending: true });
+  if (error) {
+    return failGenerationJob(supabase, job, `Failed to load generated files: ${error.message}`);
+  }
+
+  // Generated pages already point at the harvested copies (rewriteImageUrls);
+  // ones that can't be downloaded any more keep their original URL instead
+  const harvested: HarvestedImage[] = job.inputs.site_config?.harvested_images?.images || [];
+  const { files: imageFiles, missing } = await downloadHarvestedImages(harvested);
+  if (missing.length > 0) {
+    console.warn(`Generation job ${job.id}: ${missing.length} harvested images are no longer downloadable:`, missing.map((image) => image.path));
+  }
+
+  const config = job.config!;
+  const files: FileEntry[] = [
+    { path: 'src/data/siteConfig.ts', content: config.siteConfig },
+    { path: 'src/styles/theme.css', content: config.themeCss },
+    { path: 'vercel.json', content: config.vercelJson },
+    ...logoFile(job.inputs),
+    ...imageFiles,
+    ...(generated || []).map((file) => ({
+      path: file.path as string,
+      content: restoreImageUrls(file.content as string, missing),
+    })),
+  ];
+
+  try {
+    const commit = await commitGeneratedFiles(job.inputs, files);
+    return updateGenerationJob(supabase, job.id, {
+      status: 'completed',
+      commit_sha: commit.commit_sha,
+      commit_url: commit.commit_url,
+      claimed_at: null,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    return failGenerationJob(supabase, job, `Commit failed: ${(error as Error).message}`);
+  }
+}
+
+/** public/logo.{ext} from the uploaded logo — generate-config points siteConfig.logoPath at it. */
+function logoFile(client: GenerationClient): FileEntry[] {
+  const dataUrl = client.site_config?.logo_data_url as string | undefined;
+  const match = dataUrl?.match(/^data:image\/([\w+]+);base64,(.+)$/);
+  if (!match) return [];
+  const ext = match[1] === 'svg+xml' ? 'svg' : match[1];
+  return [{ path: `public/logo.${ext}`, content: match[2], encoding: 'base64' }];
+}
+
+/** Job fields safe to return to the Command Center (inputs and outputs are returned separately). */
+export function summarizeGenerationJob(job: GenerationJob) {
+  return {
+    job_id: job.id,
+    client_id: job.client_id,
+    status: job.status,
+    step: job.step,
+    files_total: job.files_total,
+    files_done: job.files_done,
+    files_failed: job.files_failed,
+    commit_sha: job.commit_sha,
+    commit_url: job.commit_url,
+    error: job.error,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+    completed_at: job.completed_at,
+  };
+}
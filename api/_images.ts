@@ -0,0 +1,350 @@
+import { createHash } from 'crypto';
+import * as cheerio from 'cheerio';
+import { slugify } from './_scraper.js';
+import type { FileEntry } from './_generate-prompts.js';
+import { defaultFetcher, type Fetcher } from './_fetcher.js';
+
+/**
+ * Image harvesting for migrated sites.
+ * NOT a route (underscore prefix).
+ *
+ * Downloads the images referenced by scraped pages, dedupes them by content
+ * hash, and turns them into base64 FileEntry items under public/images/ so
+ * the new site stops hotlinking the old one.
+ */
+
+// ── Types ──
+
+export interface HarvestedImage {
+  hash: string; // sha256 of the file contents
+  path: string; // repo path, e.g. public/images/team-photo-1a2b3c4d.jpg
+  public_path: string; // URL path on the new site, e.g. /images/team-photo-1a2b3c4d.jpg
+  sources: string[]; // every original URL that resolved to these bytes
+  alt: string;
+  width: number | null;
+  height: number | null;
+  mime_type: string;
+  bytes: number;
+}
+
+export interface HarvestResult {
+  images: HarvestedImage[];
+  files: FileEntry[];
+  skipped: { src: string; reason: string }[];
+}
+
+// ── Limits ──
+
+const IMAGE_TIMEOUT = 6000;
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024; // 2 MB per image
+const MIN_DIMENSION = 48; // smaller than this on both axes is an icon, not content
+const TRACKING_PATTERNS = [
+  /facebook\.com\/tr/i,
+  /google-analytics\.com/i,
+  /googletagmanager\.com/i,
+  /doubleclick\.net/i,
+  /bat\.bing\.com/i,
+  /pixel\.(wp\.com|quantserve\.com)/i,
+  /\/(pixel|beacon|spacer|blank)\.(gif|png)/i,
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+};
+
+// SVGs are served from the client's origin, so anything that can run script
+// or pull in another document is stripped before they're committed
+const SVG_BLOCKED_ELEMENTS = 'script, foreignObject, iframe, embed, object, handler, listener';
+const SVG_LINK_ATTRIBUTES = ['href', 'xlink:href', 'src'];
+const SAFE_DATA_URL = /^data:image\/(png|jpeg|gif|webp|avif);/i;
+
+// Characters that end a URL in markup, CSS, srcset lists and string literals
+const URL_DELIMITERS = '\\s"\'`()<>,';
+
+// ── Harvest ──
+
+/**
+ * Download and dedupe a list of scraped images.
+ * Images already present in `known` (by hash) are merged rather than re-added,
+ * so repeated calls build up one manifest.
+ */
+export async function harvestImages(
+  candidates: { src: string; alt: string; filename: string }[],
+  known: HarvestedImage[] = [],
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<HarvestResult> {
+  const byHash = new Map(known.map((img) => [img.hash, img]));
+  const files: FileEntry[] = [];
+  const skipped: HarvestResult['skipped'] = [];
+
+  const downloads = await Promise.all(candidates.map(async (candidate) => ({
+    candidate,
+    result: await downloadImage(candidate.src, fetcher),
+  })));
+
+  for (const { candidate, result } of downloads) {
+    if ('reason' in result) {
+      skipped.push({ src: candidate.src, reason: result.reason });
+      continue;
+    }
+
+    const { body, mimeType } = result;
+    const { width, height } = readImageSize(body, mimeType);
+
+    if (width !== null && height !== null) {
+      if (width <= 2 && height <= 2) {
+        skipped.push({ src: candidate.src, reason: 'Tracking pixel' });
+        continue;
+      }
+      if (width < MIN_DIMENSION && height < MIN_DIMENSION) {
+        skipped.push({ src: candidate.src, reason: `Icon-sized (${width}×${height})` });
+        continue;
+      }
+    }
+
+    const hash = createHash('sha256').update(body).digest('hex');
+    const existing = byHash.get(hash);
+    if (existing) {
+      if (!existing.sources.includes(candidate.src)) existing.sources.push(candidate.src);
+      if (!existing.alt && candidate.alt) existing.alt = candidate.alt;
+      continue;
+    }
+
+    const baseName = slugify(candidate.filename.replace(/\.[a-z0-9]+$/i, '')) || 'image';
+    const fileName = `${baseName.slice(0, 60)}-${hash.slice(0, 8)}.${EXTENSIONS[mimeType]}`;
+    const image: HarvestedImage = {
+      hash,
+      path: `public/images/${fileName}`,
+      public_path: `/images/${fileName}`,
+      sources: [candidate.src],
+      alt: candidate.alt,
+      width,
+      height,
+      mime_type: mimeType,
+      bytes: body.length,
+    };
+
+    byHash.set(hash, image);
+    files.push({ path: image.path, content: body.toString('base64'), encoding: 'base64' });
+  }
+
+  return { images: [...byHash.values()], files, skipped };
+}
+
+/**
+ * Download the files of an existing manifest again. harvest-images only hands
+ * them to its caller, so a server-side commit fetches them itself: each
+ * image's sources are tried in order and the first that serves an image is
+ * written to the manifest path. Images no source serves any more are
+ * returned in `missing`.
+ */
+export async function downloadHarvestedImages(
+  images: HarvestedImage[],
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<{ files: FileEntry[]; missing: HarvestedImage[] }> {
+  const files: FileEntry[] = [];
+  const missing: HarvestedImage[] = [];
+
+  await Promise.all(images.map(async (image) => {
+    for (const src of image.sources) {
+      const result = await downloadImage(src, fetcher);
+      if ('body' in result) {
+        files.push({ path: image.path, content: result.body.toString('base64'), encoding: 'base64' });
+        return;
+      }
+    }
+    missing.push(image);
+  }));
+
+  return { files, missing };
+}
+
+async function downloadImage(
+  src: string,
+  fetcher: Fetcher,
+): Promise<{ body: Buffer; mimeType: string } | { reason: string }> {
+  if (!/^https?:\/\//i.test(src)) return { reason: 'Not an http(s) URL' };
+  if (TRACKING_PATTERNS.some((pattern) => pattern.test(src))) return { reason: 'Tracking pixel' };
+
+  try {
+    const response = await fetcher(src, {
+      headers: { 'User-Agent': 'BochiBotWeb/1.0 (site migration tool)' },
+      signal: AbortSignal.timeout(IMAGE_TIMEOUT),
+      redirect: 'follow',
+    });
+    if (!response.ok) return { reason: `HTTP ${response.status}` };
+
+    const declaredLength = Number(response.headers.get('content-length') || 0);
+    if (declaredLength > MAX_IMAGE_BYTES) return { reason: 'Larger than 2 MB' };
+
+    const body = Buffer.from(await response.arrayBuffer());
+    if (body.length > MAX_IMAGE_BYTES) return { reason: 'Larger than 2 MB' };
+
+    const mimeType = sniffMimeType(body) || (response.headers.get('content-type') || '').split(';')[0].trim();
+    if (!EXTENSIONS[mimeType]) return { reason: `Unsupported type: ${mimeType || 'unknown'}` };
+
+    if (mimeType === 'image/svg+xml') {
+      const sanitized = sanitizeSvg(body);
+      if (!sanitized) return { reason: 'Unparseable SVG' };
+      return { body: sanitized, mimeType };
+    }
+
+    return { body, mimeType };
+  } catch (err) {
+    return { reason: (err as Error).message };
+  }
+}
+
+// ── SVG sanitizing ──
+
+/**
+ * Strip scripts, event handlers and external references from an SVG.
+ * Returns null when the document has no <svg> root.
+ */
+export function sanitizeSvg(body: Buffer): Buffer | null {
+  // DOCTYPEs can declare entities; an image never needs one
+  const source = body.toString('utf-8').replace(/<!DOCTYPE[^[>]*(\[[\s\S]*?\])?\s*>/gi, '');
+  const $ = cheerio.load(source, { xml: true });
+  if (!$('svg').length) return null;
+
+  $(SVG_BLOCKED_ELEMENTS).remove();
+  // <set>/<animate> can swap a link or handler in after load
+  $('set, animate').each((_, el) => {
+    const target = ($(el).attr('attributeName') || '').toLowerCase();
+    if (target.startsWith('on') || SVG_LINK_ATTRIBUTES.includes(target)) $(el).remove();
+  });
+
+  $('*').each((_, el) => {
+    for (const [name, raw] of Object.entries($(el).attr() || {})) {
+      const value = raw.trim();
+      if (name.toLowerCase().startsWith('on')) {
+        $(el).removeAttr(name);
+      } else if (SVG_LINK_ATTRIBUTES.includes(name.toLowerCase())) {
+        if (!value.startsWith('#') && !SAFE_DATA_URL.test(value)) $(el).removeAttr(name);
+      } else if (name.toLowerCase() === 'style') {
+        $(el).attr(name, sanitizeSvgCss(value));
+      }
+    }
+  });
+  $('style').each((_, el) => {
+    $(el).text(sanitizeSvgCss($(el).text()));
+  });
+
+  return Buffer.from($.xml(), 'utf-8');
+}
+
+/** Drop @import rules and url() references to anything outside the document. */
+function sanitizeSvgCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\(\s*(?!['"]?#)[^)]*\)/gi, 'none');
+}
+
+// ── Format detection ──
+
+/** Identify the image format from its magic bytes — servers often mislabel images. */
+function sniffMimeType(body: Buffer): string | null {
+  if (body.length < 12) return null;
+  if (body[0] === 0x89 && body.toString('ascii', 1, 4) === 'PNG') return 'image/png';
+  if (body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) return 'image/jpeg';
+  if (body.toString('ascii', 0, 4) === 'GIF8') return 'image/gif';
+  if (body.toString('ascii', 0, 4) === 'RIFF' && body.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+  if (body.toString('ascii', 4, 12) === 'ftypavif') return 'image/avif';
+  if (/<svg[\s>]/i.test(body.toString('utf-8', 0, Math.min(body.length, 1024)))) return 'image/svg+xml';
+  return null;
+}
+
+/** Read pixel dimensions from the image header. Returns nulls when unknown. */
+export function readImageSize(body: Buffer, mimeType: string): { width: number | null; height: number | null } {
+  const unknown = { width: null, height: null };
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return { width: body.readUInt32BE(16), height: body.readUInt32BE(20) };
+
+      case 'image/gif':
+        return { width: body.readUInt16LE(6), height: body.readUInt16LE(8) };
+
+      case 'image/jpeg': {
+        // Walk segments until a start-of-frame marker (SOF0–SOF15, minus DHT/JPG/DAC)
+        let offset = 2;
+        while (offset + 9 < body.length) {
+          if (body[offset] !== 0xff) return unknown;
+          const marker = body[offset + 1];
+          const length = body.readUInt16BE(offset + 2);
+          if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+            return { width: body.readUInt16BE(offset + 7), height: body.readUInt16BE(offset + 5) };
+          }
+          offset += 2 + length;
+        }
+        return unknown;
+      }
+
+      case 'image/webp': {
+        const chunk = body.toString('ascii', 12, 16);
+        if (chunk === 'VP8 ') {
+          return { width: body.readUInt16LE(26) & 0x3fff, height: body.readUInt16LE(28) & 0x3fff };
+        }
+        if (chunk === 'VP8L') {
+          const bits = body.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8X') {
+          return { width: body.readUIntLE(24, 3) + 1, height: body.readUIntLE(27, 3) + 1 };
+        }
+        return unknown;
+      }
+
+      case 'image/svg+xml': {
+        const svgTag = body.toString('utf-8').match(/<svg[^>]*>/i)?.[0] || '';
+        const width = parseFloat(svgTag.match(/\swidth=["']([\d.]+)/i)?.[1] || '');
+        const height = parseFloat(svgTag.match(/\sheight=["']([\d.]+)/i)?.[1] || '');
+        if (!isNaN(width) && !isNaN(height)) return { width, height };
+        const viewBox = svgTag.match(/viewBox=["']([\d.\s,-]+)["']/i)?.[1].split(/[\s,]+/).map(Number);
+        if (viewBox?.length === 4) return { width: viewBox[2], height: viewBox[3] };
+        return unknown;
+      }
+
+      default:
+        return unknown;
+    }
+  } catch {
+    return unknown;
+  }
+}
+
+// ── Rewriting ──
+
+/**
+ * Point generated file content at harvested local copies.
+ * Every original source URL is replaced with the image's public path.
+ */
+export function rewriteImageUrls(content: string, images: HarvestedImage[]): string {
+  return replaceUrls(content, new Map(images.flatMap((image) => image.sources.map((src) => [src, image.public_path]))));
+}
+
+/**
+ * Undo rewriteImageUrls for images that can't be committed, pointing their
+ * public paths back at the first original URL.
+ */
+export function restoreImageUrls(content: string, images: HarvestedImage[]): string {
+  return replaceUrls(content, new Map(images.map((image) => [image.public_path, image.sources[0]])));
+}
+
+/**
+ * Replace whole URL tokens only — `…/a.jpg` must not match inside
+ * `…/a.jpg?w=300` or a longer URL sharing its prefix. Longest first, so a
+ * URL that another one prefixes still wins.
+ */
+function replaceUrls(content: string, replacements: Map<string, string>): string {
+  const urls = [...replacements.keys()].filter(Boolean).sort((a, b) => b.length - a.length);
+  if (urls.length === 0) return content;
+  const alternatives = urls.map((url) => url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const token = new RegExp(`(?<![^${URL_DELIMITERS}])(?:${alternatives})(?![^${URL_DELIMITERS}])`, 'g');
+  return content.replace(token, (url) => replacements.get(url)!);
+}
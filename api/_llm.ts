@@ -0,0 +1,318 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { getEnv, stripFences } from './_generate-prompts.js';
+import { recordLlmUsage, type LlmCaller, type LlmUsage } from './_usage.js';
+
+/**
+ * Language model access for every endpoint that calls a model.
+ * NOT a route (underscore prefix).
+ *
+ * complete() sends one chat request for a pipeline step and returns the
+ * reply text; completeJson() parses the reply, giving the model one more
+ * turn when it isn't valid JSON. Rate limits, server errors and timeouts
+ * are retried with exponential backoff. Every call's tokens, cost and
+ * latency are recorded for the request's caller (_usage.ts).
+ *
+ * Each step's model is LLM_MODEL_<STEP> (e.g. LLM_MODEL_PAGE,
+ * LLM_MODEL_SITE_CONFIG), else LLM_MODEL, else DEFAULT_MODEL.
+ *
+ * Set LLM_FIXTURES_MODE=record|replay and LLM_FIXTURES_DIR to save every
+ * reply or serve them back offline, as the scraper does (_fetcher.ts).
+ */
+
+// ── Types ──
+
+export type LlmStep = 'intake' | 'edit' | 'site-config' | 'theme' | 'page' | 'repair';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  images?: string[]; // image or data URLs sent with a user message
+}
+
+export interface LlmRequest {
+  step: LlmStep;
+  system: string;
+  messages: LlmMessage[];
+  caller: LlmCaller; // who the call is accounted to
+}
+
+export interface LlmReply {
+  text: string;
+  usage: LlmUsage | null;
+}
+
+/** Sends one request to `model` and returns the reply. */
+export type LlmProvider = (request: LlmRequest, model: string) => Promise<LlmReply>;
+
+export interface LlmFixtureRecord {
+  step: LlmStep;
+  model: string;
+  system: string;
+  messages: { role: string; content: string; images: number }[];
+  reply: string;
+  usage: LlmUsage | null;
+  recorded_at: string;
+}
+
+/** A failed model request; `retryable` ones are tried again by complete(). */
+class LlmRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly retryAfterMs?: number) {
+    super(message);
+  }
+}
+
+// ── Limits ──
+
+const DEFAULT_MODEL = 'anthropic/claude-sonnet-4';
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1_000; // doubled after every failed attempt
+const MAX_BACKOFF_MS = 30_000; // also caps a Retry-After the API asks for
+const REQUEST_TIMEOUT_MS = 120_000;
+
+/** Longest one complete() can take: every attempt timing out, with the longest backoff between them. */
+export const MAX_COMPLETION_MS = MAX_ATTEMPTS * REQUEST_TIMEOUT_MS + (MAX_ATTEMPTS - 1) * MAX_BACKOFF_MS;
+
+// Output budget per step, and the app name OpenRouter attributes the usage to
+const STEP_SETTINGS: Record<LlmStep, { maxTokens: number; title: string }> = {
+  'intake': { maxTokens: 4096, title: 'Bochi Web Creative Brief' },
+  'edit': { maxTokens: 4096, title: 'Bochi Web Editor' },
+  'site-config': { maxTokens: 8192, title: 'Bochi Web Site Generator' },
+  'theme': { maxTokens: 8192, title: 'Bochi Web Site Generator' },
+  'page': { maxTokens: 8192, title: 'Bochi Web Site Generator' },
+  'repair': { maxTokens: 8192, title: 'Bochi Web Site Generator' },
+};
+
+// ── Requests ──
+
+/** The reply text for `request`, from the step's model. */
+export async function complete(request: LlmRequest): Promise<string> {
+  const model = modelFor(request.step);
+  const provider = defaultProvider();
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const reply = await provider(request, model);
+      await recordLlmUsage(request.caller, {
+        step: request.step,
+        model,
+        usage: reply.usage,
+        latencyMs: Date.now() - startedAt,
+      });
+      return reply.text;
+    } catch (error) {
+      if (!(error instanceof LlmRequestError) || !error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+      const delay = Math.min(error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+      console.warn(`${request.step} model call failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms: ${error.message}`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/** complete() for the common case: one system prompt, one user prompt. */
+export function completePrompt(step: LlmStep, system: string, prompt: string, caller: LlmCaller): Promise<string> {
+  return complete({ step, system, messages: [{ role: 'user', content: prompt }], caller });
+}
+
+/**
+ * The reply to `request` parsed as JSON. Code fences and text around the
+ * object are tolerated; anything else goes back to the model once, with
+ * the parse error, before giving up.
+ */
+export async function completeJson<T>(request: LlmRequest): Promise<T> {
+  const reply = await complete(request);
+  const parsed = parseJsonReply(reply);
+  if ('value' in parsed) return parsed.value as T;
+
+  const retry = await complete({
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: reply },
+      {
+        role: 'user',
+        content: `That reply was not valid JSON (${parsed.error}). Respond again with only the JSON object — no markdown, no code fences, no extra text.`,
+      },
+    ],
+  });
+  const reparsed = parseJsonReply(retry);
+  if ('value' in reparsed) return reparsed.value as T;
+  throw new Error(`Model returned invalid JSON for ${request.step}: ${reparsed.error}`);
+}
+
+function parseJsonReply(reply: string): { value: unknown } | { error: string } {
+  const text = stripFences(reply);
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    // A sentence before or after the object is the usual culprit
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start >= 0 && end > start) {
+      try {
+        return { value: JSON.parse(text.slice(start, end + 1)) };
+      } catch {
+        // fall through to the original error
+      }
+    }
+    return { error: (error as Error).message };
+  }
+}
+
+function modelFor(step: LlmStep): string {
+  const stepKey = `LLM_MODEL_${step.toUpperCase().replace(/-/g, '_')}`;
+  return process.env[stepKey] || process.env.LLM_MODEL || DEFAULT_MODEL;
+}
+
+// ── Providers ──
+
+export const openRouterProvider: LlmProvider = async (request, model) => {
+  const apiKey = getEnv('OPENROUTER_API_KEY');
+  const { maxTokens, title } = STEP_SETTINGS[request.step];
+
+  let response: Response;
+  try {
+    response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+        'HTTP-Referer': 'https://bochi-web.com',
+        'X-Title': title,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        usage: { include: true }, // adds token counts and cost to the response
+        messages: [{ role: 'system', content: request.system }, ...request.messages.map(toChatMessage)],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    // Timeouts and dropped connections
+    throw new LlmRequestError(`OpenRouter request failed: ${(error as Error).message}`, true);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new LlmRequestError(
+      `OpenRouter API error: ${response.status} — ${errorText}`,
+      isRetryableStatus(response.status),
+      retryAfter > 0 ? retryAfter * 1000 : undefined,
+    );
+  }
+
+  const data = await response.json();
+  // Upstream provider failures can arrive as a 200 with an error body
+  if (data.error) {
+    throw new LlmRequestError(
+      `OpenRouter API error: ${data.error.code} — ${data.error.message}`,
+      isRetryableStatus(Number(data.error.code)),
+    );
+  }
+
+  const text: string | undefined = data.choices?.[0]?.message?.content;
+  if (!text) {
+    throw new LlmRequestError('Empty response from OpenRouter API', true);
+  }
+
+  const usage = data.usage
+    ? {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+        costUsd: typeof data.usage.cost === 'number' ? data.usage.cost : null,
+      }
+    : null;
+  return { text, usage };
+};
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** OpenAI chat format; images go before the text as image_url blocks. */
+function toChatMessage(message: LlmMessage) {
+  if (!message.images?.length) return { role: message.role, content: message.content };
+  return {
+    role: message.role,
+    content: [
+      ...message.images.map((url) => ({ type: 'image_url', image_url: { url } })),
+      { type: 'text', text: message.content },
+    ],
+  };
+}
+
+/** Pass requests through to `inner` and save every reply under `dir`. */
+export function createRecordingProvider(dir: string, inner: LlmProvider = openRouterProvider): LlmProvider {
+  mkdirSync(dir, { recursive: true });
+
+  return async (request, model) => {
+    const reply = await inner(request, model);
+    const record: LlmFixtureRecord = {
+      step: request.step,
+      model,
+      system: request.system,
+      messages: request.messages.map((m) => ({ role: m.role, content: m.content, images: m.images?.length || 0 })),
+      reply: reply.text,
+      usage: reply.usage,
+      recorded_at: new Date().toISOString(),
+    };
+    writeFileSync(join(dir, fixtureFileName(request)), JSON.stringify(record, null, 2));
+    return reply;
+  };
+}
+
+/**
+ * Deterministic offline provider: serves the reply recorded for the same
+ * step, system prompt and messages (the model is ignored). A hand-written
+ * `{step}_default.json` answers any request for that step without one.
+ */
+export function createReplayProvider(dir: string): LlmProvider {
+  return async (request) => {
+    const file = join(dir, fixtureFileName(request));
+    const fallback = join(dir, `${request.step}_default.json`);
+    const path = existsSync(file) ? file : existsSync(fallback) ? fallback : null;
+    if (!path) {
+      throw new Error(`No fixture recorded for ${request.step} request ${file}`);
+    }
+    const record = JSON.parse(readFileSync(path, 'utf-8')) as LlmFixtureRecord;
+    return { text: record.reply, usage: record.usage ?? null };
+  };
+}
+
+let envProvider: LlmProvider | null = null;
+
+/** The provider selected by LLM_FIXTURES_MODE (OpenRouter when unset). */
+export function defaultProvider(): LlmProvider {
+  if (envProvider) return envProvider;
+
+  const mode = process.env.LLM_FIXTURES_MODE;
+  const dir = process.env.LLM_FIXTURES_DIR;
+  if (mode && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid LLM_FIXTURES_MODE: ${mode} (expected "record" or "replay")`);
+  }
+  if (mode && !dir) {
+    throw new Error('LLM_FIXTURES_DIR is required when LLM_FIXTURES_MODE is set');
+  }
+
+  envProvider = mode === 'record'
+    ? createRecordingProvider(dir!)
+    : mode === 'replay'
+      ? createReplayProvider(dir!)
+      : openRouterProvider;
+  return envProvider;
+}
+
+// ── Fixtures ──
+
+/** Step prefix for browsing the directory, hash of everything sent for uniqueness. */
+function fixtureFileName(request: LlmRequest): string {
+  const hash = createHash('sha1')
+    .update(JSON.stringify({ system: request.system, messages: request.messages }))
+    .digest('hex')
+    .slice(0, 12);
+  return `${request.step}_${hash}.json`;
+}
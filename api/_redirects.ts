@@ -0,0 +1,268 @@
+/**
+ * Old-URL → new-route redirect proposals for site migrations.
+ * NOT a route (underscore prefix).
+ *
+ * Matches every legacy URL against the routes the new site will have,
+ * scoring slug, title and heading similarity, then checks the resulting
+ * map for redirect chains and loops.
+ *
+ * Saved maps may hold hand-entered rows with a path missing; those are
+ * ignored rather than trusted.
+ */
+
+// ── Types ──
+
+export interface LegacyPage {
+  url: string;
+  title?: string | null;
+  headings?: { level: number; text: string }[];
+}
+
+export interface RedirectEntry {
+  old_path: string;
+  new_path: string;
+  confidence: number; // 0–1
+  reason: string;
+  source: 'auto' | 'manual';
+}
+
+export interface RedirectReport {
+  redirect_map: RedirectEntry[];
+  unmatched: { old_path: string; title: string | null; best_guess: string | null; confidence: number }[];
+  chains: { path: string[]; collapsed_to: string }[];
+  loops: { path: string[] }[];
+}
+
+interface RouteCandidate {
+  path: string;
+  label: string;
+  keywords: string[]; // extra terms that strongly suggest this route
+}
+
+// ── Tuning ──
+
+const MATCH_THRESHOLD = 0.35;
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'in', 'on', 'to', 'our', 'your', 'with', 'at', 'by',
+  'is', 'we', 'us', 'page', 'home', 'html', 'php', 'aspx', 'index', 'www', 'com',
+]);
+
+// Homepage sections the legacy site often had as standalone pages
+const HOMEPAGE_SECTIONS: RouteCandidate[] = [
+  { path: '/#about', label: 'about', keywords: ['about', 'story', 'team', 'history', 'who', 'mission'] },
+  { path: '/#services', label: 'services', keywords: ['services', 'service', 'what', 'offer', 'solutions'] },
+  { path: '/#testimonials', label: 'testimonials', keywords: ['testimonials', 'reviews', 'review', 'clients', 'customers'] },
+  { path: '/#faq', label: 'faq', keywords: ['faq', 'faqs', 'questions', 'frequently'] },
+];
+
+// ── Routes ──
+
+/**
+ * Turn a planned file path into its URL route.
+ * Returns null for files that aren't pages (components, styles, other data).
+ */
+export function filePathToRoute(filePath: string): string | null {
+  // Service content files each become a page of the services/[slug] route
+  const service = filePath.match(/^src\/data\/services\/([^/]+)\.ts$/);
+  if (service) return `/services/${service[1]}/`;
+
+  const match = filePath.match(/^src\/pages\/(.+)\.(astro|md|mdx)$/);
+  if (!match || match[1].includes('[')) return null;
+  const route = match[1].replace(/(^|\/)index$/, '');
+  return route ? `/${route}/` : '/';
+}
+
+function buildCandidates(filesToGenerate: string[]): RouteCandidate[] {
+  const candidates: RouteCandidate[] = [];
+  for (const file of filesToGenerate) {
+    const route = filePathToRoute(file);
+    if (!route || route === '/') continue;
+    const label = route.replace(/^\/|\/$/g, '').split('/').pop() || '';
+    const keywords = label === 'contact'
+      ? ['contact', 'quote', 'estimate', 'touch', 'reach', 'location', 'locations', 'directions']
+      : [];
+    candidates.push({ path: route, label, keywords });
+  }
+  return [...candidates, ...HOMEPAGE_SECTIONS];
+}
+
+// ── Similarity ──
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+/** Light stemming so "roofs"/"roofing"/"roof" and "services"/"service" compare equal. */
+function stem(token: string): string {
+  return token
+    .replace(/ies$/, 'y')
+    .replace(/(ing|ers|er)$/, '')
+    .replace(/(s|x|z|ch|sh)es$/, '$1')
+    .replace(/([^s])s$/, '$1')
+    .replace(/e$/, '')
+    .replace(/(.)\1$/, '$1');
+}
+
+/** Dice coefficient over token sets. */
+function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  let shared = 0;
+  for (const t of setA) if (setB.has(t)) shared++;
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+function scoreCandidate(page: LegacyPage, oldPath: string, candidate: RouteCandidate): number {
+  const routeTokens = tokenize(`${candidate.label} ${candidate.keywords.join(' ')}`);
+  const labelTokens = tokenize(candidate.label);
+  const slugTokens = tokenize(oldPath.split('/').filter(Boolean).pop() || '');
+  const titleTokens = tokenize((page.title || '').split(/\s[|–—-]\s/)[0]);
+  const headingTokens = tokenize((page.headings || []).filter((h) => h.level <= 2).map((h) => h.text).join(' '));
+
+  const slugScore = Math.max(similarity(slugTokens, labelTokens), similarity(slugTokens, routeTokens) * 0.8);
+  const titleScore = similarity(titleTokens, labelTokens);
+  const headingScore = headingTokens.some((t) => labelTokens.includes(t)) ? 1 : 0;
+
+  // Slug carries most weight; title and headings confirm it
+  let score = slugScore * 0.55 + titleScore * 0.3 + headingScore * 0.15;
+  // A slug that contains the whole route label is a strong match on its own
+  if (labelTokens.length > 0 && labelTokens.every((t) => slugTokens.includes(t))) score = Math.max(score, 0.8);
+  return Math.min(1, Math.round(score * 100) / 100);
+}
+
+// ── Map building ──
+
+/**
+ * Propose a redirect for every legacy URL. Paths that already exist on the
+ * new site are skipped; manual entries in `existing` always win.
+ */
+export function buildRedirectMap(
+  legacyPages: LegacyPage[],
+  filesToGenerate: string[],
+  existing: RedirectEntry[] = [],
+): RedirectReport {
+  const candidates = buildCandidates(filesToGenerate);
+  const newRoutes = new Set(
+    filesToGenerate.map(filePathToRoute).filter((r): r is string => !!r).map(stripTrailingSlash),
+  );
+  const manual = existing.filter((e) => e.source !== 'auto' && hasPaths(e));
+  const manualPaths = new Set(manual.map((e) => stripTrailingSlash(e.old_path)));
+
+  const proposed: RedirectEntry[] = [];
+  const unmatched: RedirectReport['unmatched'] = [];
+  const seen = new Set<string>();
+
+  for (const page of legacyPages) {
+    let oldPath: string;
+    try {
+      oldPath = stripTrailingSlash(new URL(page.url).pathname);
+    } catch {
+      continue;
+    }
+    if (seen.has(oldPath) || manualPaths.has(oldPath) || newRoutes.has(oldPath)) continue;
+    seen.add(oldPath);
+
+    let best: { candidate: RouteCandidate; score: number } | null = null;
+    for (const candidate of candidates) {
+      const score = scoreCandidate(page, oldPath, candidate);
+      if (!best || score > best.score) best = { candidate, score };
+    }
+
+    if (best && best.score >= MATCH_THRESHOLD) {
+      proposed.push({
+        old_path: oldPath,
+        new_path: best.candidate.path,
+        confidence: best.score,
+        reason: `Matched "${best.candidate.label}" by slug/title/headings`,
+        source: 'auto',
+      });
+    } else {
+      unmatched.push({
+        old_path: oldPath,
+        title: page.title || null,
+        best_guess: best && best.score > 0 ? best.candidate.path : null,
+        confidence: best?.score || 0,
+      });
+    }
+  }
+
+  const { entries, chains, loops } = resolveChains([...manual, ...proposed]);
+  return { redirect_map: entries, unmatched, chains, loops };
+}
+
+/**
+ * Collapse chains (A → B → C becomes A → C) and drop loops (A → B → A),
+ * reporting both so a reviewer can see what changed.
+ */
+export function resolveChains(entries: RedirectEntry[]): {
+  entries: RedirectEntry[];
+  chains: RedirectReport['chains'];
+  loops: RedirectReport['loops'];
+} {
+  // Self-redirects are no-ops
+  entries = entries.filter((e) => hasPaths(e) && stripTrailingSlash(e.old_path) !== stripTrailingSlash(e.new_path));
+  const bySource = new Map(entries.map((e) => [stripTrailingSlash(e.old_path), e]));
+  const chains: RedirectReport['chains'] = [];
+  const loops: RedirectReport['loops'] = [];
+  const looped = new Set<string>();
+  const resolved: RedirectEntry[] = [];
+
+  for (const entry of entries) {
+    const path = [stripTrailingSlash(entry.old_path)];
+    let target = entry.new_path;
+    let isLoop = false;
+
+    while (bySource.has(stripTrailingSlash(target.split('#')[0]))) {
+      const next = stripTrailingSlash(target.split('#')[0]);
+      if (path.includes(next)) {
+        isLoop = true;
+        path.push(next);
+        break;
+      }
+      path.push(next);
+      target = bySource.get(next)!.new_path;
+    }
+
+    if (isLoop) {
+      const key = [...new Set(path)].sort().join('|');
+      if (!looped.has(key)) {
+        looped.add(key);
+        loops.push({ path });
+      }
+      continue;
+    }
+
+    if (path.length > 1) {
+      chains.push({ path: [...path, target], collapsed_to: target });
+      resolved.push({ ...entry, new_path: target });
+    } else {
+      resolved.push(entry);
+    }
+  }
+
+  return { entries: resolved, chains, loops };
+}
+
+/**
+ * A legacy path as a vercel.json redirect `source`. Sources are
+ * path-to-regexp patterns, so characters like `(`, `:` and `*` in an old
+ * URL are escaped to match literally.
+ */
+export function toRedirectSource(path: string): string {
+  return path.replace(/[()[\]{}:*+?\\]/g, '\\$&');
+}
+
+function hasPaths(entry: Partial<RedirectEntry>): entry is RedirectEntry {
+  return typeof entry.old_path === 'string' && entry.old_path !== ''
+    && typeof entry.new_path === 'string' && entry.new_path !== '';
+}
+
+function stripTrailingSlash(path: string): string {
+  return path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+}
@@ -1,7 +1,73 @@
 import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { gunzipSync } from 'zlib';
+import { defaultFetcher, type Fetcher } from './_fetcher.js';
 
 // ── Types ──
 
+export interface Testimonial {
+  quote: string;
+  author_name: string | null;
+  author_title: string | null;
+  rating: number | null; // normalized to a 5-star scale
+  source_page: string;
+}
+
+export interface AggregateRating {
+  rating_value: number; // normalized to a 5-star scale
+  review_count: number | null;
+}
+
+export interface ScrapedForm {
+  action: string;
+  method: string;
+  heading: string | null; // nearest heading inside or just above the form
+  submit_label: string | null;
+  fields: ScrapedFormField[];
+}
+
+export interface ScrapedFormField {
+  name: string;
+  type: string; // input type, or "textarea" / "select"
+  placeholder: string;
+  label: string | null;
+  required: boolean;
+  options: string[]; // select choices; a radio or checkbox carries its own choice
+}
+
+/** One menu entry. Internal hrefs are site-relative paths ("/services/roofing", "/#about"). */
+export interface NavItem {
+  text: string;
+  href: string | null; // null for dropdown toggles that aren't links themselves
+  children: NavItem[];
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface TimeRange {
+  opens: string; // 24h "HH:MM"
+  closes: string; // 24h "HH:MM"; earlier than opens when open past midnight
+}
+
+export interface OpeningHours {
+  weekly: Record<Weekday, TimeRange[]>; // [] = closed that day
+  exceptions: { date: string; hours: TimeRange[] }[]; // YYYY-MM-DD, e.g. holidays
+  source: 'schema' | 'html';
+}
+
+export interface BusinessLocation {
+  name: string | null;
+  street: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  country: string | null;
+  phone: string | null;
+  hours: OpeningHours | null;
+  geo: { lat: number; lng: number } | null;
+  source_page: string;
+}
+
 export interface PageData {
   url: string;
   slug: string;
@@ -12,16 +78,49 @@ export interface PageData {
   schema: unknown[];
   headings: { level: number; text: string }[];
   body_text: string;
+  content_markdown: string; // main content only, boilerplate removed
+  word_count: number;
   images: { src: string; alt: string; filename: string }[];
   internal_links: string[];
   phone_numbers: string[];
   email_addresses: string[];
   physical_address: string | null;
+  locations: BusinessLocation[];
+  opening_hours: OpeningHours | null;
   social_links: string[];
-  testimonials: string[];
-  forms: { action: string; method: string; fields: { name: string; type: string; placeholder: string }[] }[];
-  navigation: { text: string; href: string }[];
+  testimonials: Testimonial[];
+  aggregate_rating: AggregateRating | null;
+  forms: ScrapedForm[];
+  navigation: NavItem[];
   snapshot_path: string | null;
+  http: HttpInfo | null;
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number; // 301, 302, 307, 308…
+  location: string; // absolute URL of the next hop
+}
+
+export interface HttpInfo {
+  status: number | null; // null when no response was received
+  final_url: string;
+  redirects: RedirectHop[];
+  content_type: string | null;
+  response_time_ms: number; // until response headers, including redirect hops
+  x_robots_tag: string | null;
+}
+
+export interface BrokenLink {
+  url: string;
+  status: number | null;
+  error: string | null;
+  linked_from: string[];
+}
+
+export interface SitemapEntry {
+  url: string;
+  sitemap: string; // the sitemap file this URL was listed in
 }
 
 export interface ScrapedData {
@@ -31,16 +130,21 @@ export interface ScrapedData {
   ssl: boolean;
   total_pages: number;
   sitemap_urls: string[];
+  sitemap_entries: SitemapEntry[]; // sitemap_urls with the sitemap each was listed in
   robots_txt: string | null;
   global: {
     phone_numbers: string[];
     email_addresses: string[];
     physical_address: string | null;
+    locations: BusinessLocation[]; // deduped across pages
+    opening_hours: OpeningHours | null; // primary location's, else the first found on a page
     social_links: string[];
-    navigation: { text: string; href: string }[];
+    navigation: NavItem[]; // homepage menu, merged with matching menus on other pages
   };
   pages: PageData[];
-  skipped: { url: string; error: string }[];
+  skipped: { url: string; error: string; status: number | null }[];
+  redirects: { from: string; to: string; status: number }[]; // redirects already live on the legacy site
+  broken_links: BrokenLink[];
 }
 
 // ── URL Helpers ──
@@ -93,26 +197,112 @@ export function urlToSlug(url: string, baseOrigin: string): string {
 
 // ── Robots.txt ──
 
-export function parseRobotsTxt(robotsTxt: string): string[] {
-  const disallowed: string[] = [];
-  let relevantSection = false;
+export interface RobotsRule {
+  allow: boolean;
+  path: string; // may contain * wildcards and a trailing $ anchor
+}
 
-  for (const line of robotsTxt.split('\n')) {
-    const trimmed = line.trim().toLowerCase();
-    if (trimmed.startsWith('user-agent:')) {
-      const agent = trimmed.replace('user-agent:', '').trim();
-      relevantSection = agent === '*' || agent === 'bochibotWeb/1.0';
-    } else if (relevantSection && trimmed.startsWith('disallow:')) {
-      const path = line.trim().replace(/^disallow:\s*/i, '').trim();
-      if (path) disallowed.push(path);
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawl_delay: number | null; // seconds
+}
+
+/** Product token matched against User-agent lines (case-insensitive). */
+const ROBOTS_AGENT = 'bochibotweb';
+
+/**
+ * Parse robots.txt into the policy that applies to BochiBotWeb.
+ * Groups naming our agent take precedence over `*` groups (RFC 9309);
+ * several groups for the same agent are merged.
+ */
+export function parseRobotsTxt(robotsTxt: string): RobotsPolicy {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawl_delay: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of robotsTxt.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [], crawl_delay: null };
+        groups.push(current);
+      }
+      // "BochiBotWeb/1.0" → "bochibotweb"
+      current.agents.push(value.split('/')[0].trim().toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    inAgentLines = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" — no rule needed
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) current.crawl_delay = delay;
     }
   }
 
-  return disallowed;
+  let matched = groups.filter((g) => g.agents.includes(ROBOTS_AGENT));
+  if (matched.length === 0) matched = groups.filter((g) => g.agents.includes('*'));
+
+  const delays = matched.map((g) => g.crawl_delay).filter((d): d is number => d !== null);
+
+  return {
+    rules: matched.flatMap((g) => g.rules),
+    crawl_delay: delays.length > 0 ? Math.max(...delays) : null,
+  };
 }
 
-export function isBlockedByRobots(urlPath: string, disallowed: string[]): boolean {
-  return disallowed.some((rule) => urlPath.startsWith(rule));
+function robotsPatternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Evaluate a URL path (with query string, if any) against a robots policy.
+ * The longest matching rule wins; on a tie, Allow wins. No match means allowed.
+ */
+export function isBlockedByRobots(urlPath: string, policy: RobotsPolicy): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!robotsPatternToRegex(rule.path).test(urlPath)) continue;
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? !best.allow : false;
+}
+
+/** Fetch robots.txt for an origin. Returns null when missing or unreachable. */
+export async function fetchRobotsTxt(origin: string, fetcher: Fetcher = defaultFetcher()): Promise<string | null> {
+  try {
+    const response = await fetcher(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(5000),
+    });
+    return response.ok ? await response.text() : null;
+  } catch {
+    return null;
+  }
 }
 
 // ── Fetch ──
@@ -120,31 +310,139 @@ export function isBlockedByRobots(urlPath: string, disallowed: string[]): boolea
 const USER_AGENT = 'BochiBotWeb/1.0 (site migration tool)';
 const FETCH_TIMEOUT = 8000; // 8s — leave 2s buffer for 10s function limit
 
-export async function fetchPage(url: string): Promise<{ html: string; finalUrl: string } | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+const LINK_CHECK_TIMEOUT = 5000;
+const LINK_CHECK_CONCURRENCY = 10;
+const MAX_REDIRECTS = 10;
 
-    const response = await fetch(url, {
-      headers: { 'User-Agent': USER_AGENT },
-      signal: controller.signal,
-      redirect: 'follow',
-    });
+export interface FetchResult {
+  html: string | null; // only set for 2xx HTML responses
+  finalUrl: string;
+  http: HttpInfo;
+  error: string | null;
+}
 
-    clearTimeout(timeout);
+/**
+ * Fetch a page, following redirects by hand so every hop is recorded.
+ * Never throws: failures come back with `html: null` and an `error`.
+ */
+export async function fetchPage(url: string, fetcher: Fetcher = defaultFetcher()): Promise<FetchResult> {
+  const { response, http, error } = await request(url, 'GET', FETCH_TIMEOUT, fetcher);
+  if (!response) {
+    console.error(`fetchPage failed for ${url}:`, error);
+    return { html: null, finalUrl: http.final_url, http, error };
+  }
 
-    const contentType = response.headers.get('content-type') || '';
-    if (!contentType.includes('text/html')) return null;
-    if (!response.ok) return null;
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { html: null, finalUrl: http.final_url, http, error: `HTTP ${response.status}` };
+  }
 
+  if (!(http.content_type || '').includes('text/html')) {
+    await response.body?.cancel();
+    return { html: null, finalUrl: http.final_url, http, error: `Not HTML (${http.content_type || 'no content-type'})` };
+  }
+
+  try {
     const html = await response.text();
-    return { html, finalUrl: response.url };
+    return { html, finalUrl: http.final_url, http, error: null };
   } catch (err) {
-    console.error(`fetchPage failed for ${url}:`, (err as Error).message);
-    return null;
+    return { html: null, finalUrl: http.final_url, http, error: describeFetchError(err) };
+  }
+}
+
+/**
+ * Check whether URLs resolve, without downloading bodies where possible.
+ * HEAD first; servers that reject HEAD get a GET whose body is discarded.
+ */
+export async function checkLinks(
+  urls: string[],
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<{ url: string; http: HttpInfo; error: string | null }[]> {
+  const results: { url: string; http: HttpInfo; error: string | null }[] = [];
+  for (let i = 0; i < urls.length; i += LINK_CHECK_CONCURRENCY) {
+    const batch = urls.slice(i, i + LINK_CHECK_CONCURRENCY);
+    results.push(...await Promise.all(batch.map(async (url) => {
+      let result = await request(url, 'HEAD', LINK_CHECK_TIMEOUT, fetcher);
+      if (result.response && [403, 405, 501].includes(result.response.status)) {
+        result = await request(url, 'GET', LINK_CHECK_TIMEOUT, fetcher);
+      }
+      await result.response?.body?.cancel();
+      const status = result.http.status;
+      const error = result.error || (status !== null && status >= 400 ? `HTTP ${status}` : null);
+      return { url, http: result.http, error };
+    })));
+  }
+  return results;
+}
+
+/** A link is broken when it errors, times out or ends on a 4xx/5xx. */
+export function isBrokenLink(http: HttpInfo): boolean {
+  return http.status === null || http.status >= 400;
+}
+
+async function request(
+  url: string,
+  method: 'GET' | 'HEAD',
+  timeoutMs: number,
+  fetcher: Fetcher,
+): Promise<{ response: Response | null; http: HttpInfo; error: string | null }> {
+  const started = Date.now();
+  const http: HttpInfo = {
+    status: null,
+    final_url: url,
+    redirects: [],
+    content_type: null,
+    response_time_ms: 0,
+    x_robots_tag: null,
+  };
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  try {
+    let current = url;
+    for (;;) {
+      const response = await fetcher(current, {
+        method,
+        headers: { 'User-Agent': USER_AGENT },
+        signal,
+        redirect: 'manual',
+      });
+
+      http.status = response.status;
+      http.final_url = current;
+      http.content_type = response.headers.get('content-type');
+      http.x_robots_tag = response.headers.get('x-robots-tag');
+      http.response_time_ms = Date.now() - started;
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return { response, http, error: null };
+      }
+
+      await response.body?.cancel();
+      const next = new URL(location, current).href;
+      http.redirects.push({ url: current, status: response.status, location: next });
+
+      if (next === url || http.redirects.some((hop) => hop.url === next)) {
+        return { response: null, http, error: 'Redirect loop' };
+      }
+      if (http.redirects.length >= MAX_REDIRECTS) {
+        return { response: null, http, error: `More than ${MAX_REDIRECTS} redirects` };
+      }
+      current = next;
+    }
+  } catch (err) {
+    http.response_time_ms = Date.now() - started;
+    return { response: null, http, error: describeFetchError(err) };
   }
 }
 
+function describeFetchError(err: unknown): string {
+  const error = err as Error & { cause?: { code?: string; message?: string } };
+  if (error.name === 'TimeoutError' || error.name === 'AbortError') return 'Timed out';
+  // fetch wraps DNS/connection failures as "fetch failed" with the real reason in `cause`
+  return error.cause?.code || error.cause?.message || error.message;
+}
+
 // ── Extraction ──
 
 // Strict US phone patterns: (XXX) XXX-XXXX, XXX-XXX-XXXX, XXX.XXX.XXXX, +1 variants
@@ -209,6 +507,9 @@ export function extractPageData(html: string, url: string, baseOrigin: string):
   });
   const body_text = bodyParts.join('\n');
 
+  // Main content as Markdown
+  const content_markdown = extractMainContent(html, url);
+
   // Images
   const images: { src: string; alt: string; filename: string }[] = [];
   $('img').each((_, el) => {
@@ -265,6 +566,12 @@ export function extractPageData(html: string, url: string, baseOrigin: string):
     if (addrText) physical_address = addrText;
   }
 
+  // Every business location declared in JSON-LD
+  const locations = extractLocations(schema, url);
+
+  // Opening hours: structured data first, then hour tables/lists in the markup
+  const opening_hours = locations.find((l) => l.hours)?.hours || extractHoursFromHtml($);
+
   // Social links
   const social_links: string[] = [];
   $('a[href]').each((_, el) => {
@@ -275,49 +582,52 @@ export function extractPageData(html: string, url: string, baseOrigin: string):
   });
 
   // Testimonials
-  const testimonials: string[] = [];
-  $('[class*="testimonial"], [class*="review"], [class*="Testimonial"], [class*="Review"]').each((_, el) => {
-    const text = $(el).text().trim();
-    if (text && text.length > 20 && text.length < 2000) {
-      testimonials.push(text);
-    }
-  });
-  // Also check blockquotes that look like testimonials
-  $('blockquote').each((_, el) => {
-    const text = $(el).text().trim();
-    if (text && text.length > 20 && text.length < 2000) {
-      testimonials.push(text);
-    }
-  });
+  const testimonials = extractTestimonials($, schema, url);
+  const aggregate_rating = findAggregateRating(schema);
 
   // Forms
   const forms: PageData['forms'] = [];
   $('form').each((_, el) => {
-    const fields: { name: string; type: string; placeholder: string }[] = [];
-    $(el).find('input, textarea, select').each((_, field) => {
+    const $form = $(el);
+    const fields: ScrapedFormField[] = [];
+    $form.find('input, textarea, select').each((_, field) => {
+      const $field = $(field);
+      const tag = field.tagName.toLowerCase();
+      const type = tag === 'input' ? ($field.attr('type') || 'text').toLowerCase() : tag;
+      const ownLabel = readFieldLabel($, $field);
+      // A radio or checkbox's own label is its choice; the group is labelled by its legend
+      const isChoice = type === 'radio' || type === 'checkbox';
+      const label = isChoice ? cleanText($field.closest('fieldset').find('legend').first().text()) || null : ownLabel;
       fields.push({
-        name: $(field).attr('name') || '',
-        type: $(field).attr('type') || (field as any).tagName?.toLowerCase() || 'input',
-        placeholder: $(field).attr('placeholder') || '',
+        name: $field.attr('name') || '',
+        type,
+        placeholder: $field.attr('placeholder') || '',
+        label,
+        required: $field.is('[required], [aria-required="true"]') || /\*\s*$/.test(ownLabel || ''),
+        options: tag === 'select'
+          ? $field.find('option').toArray()
+            .filter((o) => !!$(o).attr('value') || ($(o).attr('value') === undefined && !!cleanText($(o).text())))
+            .map((o) => cleanText($(o).text()))
+            .filter(Boolean)
+          : isChoice ? [ownLabel || $field.attr('value') || ''].filter(Boolean) : [],
       });
     });
     if (fields.length === 0) return;
+
+    const $submit = $form.find('button[type="submit"], button:not([type]), input[type="submit"]').first();
+    const heading = $form.find('h1, h2, h3, h4').first().text()
+      || $form.parents().slice(0, 3).find('h1, h2, h3').first().text();
     forms.push({
-      action: $(el).attr('action') || '',
-      method: $(el).attr('method') || 'get',
+      action: $form.attr('action') || '',
+      method: $form.attr('method') || 'get',
+      heading: cleanText(heading) || null,
+      submit_label: cleanText($submit.is('input') ? $submit.attr('value') || '' : $submit.text()) || null,
       fields,
     });
   });
 
   // Navigation
-  const navigation: { text: string; href: string }[] = [];
-  $('nav a, header a').each((_, el) => {
-    const text = $(el).text().trim();
-    const href = $(el).attr('href') || '';
-    if (text && href && !href.startsWith('#') && !href.startsWith('tel:') && !href.startsWith('mailto:')) {
-      navigation.push({ text, href });
-    }
-  });
+  const navigation = extractNavigation($, url, baseOrigin);
 
   const slug = urlToSlug(url, baseOrigin);
 
@@ -331,16 +641,22 @@ export function extractPageData(html: string, url: string, baseOrigin: string):
     schema,
     headings,
     body_text,
+    content_markdown,
+    word_count: countWords(content_markdown),
     images,
     internal_links,
     phone_numbers,
     email_addresses,
     physical_address,
+    locations,
+    opening_hours,
     social_links: [...new Set(social_links)],
-    testimonials: [...new Set(testimonials)],
+    testimonials,
+    aggregate_rating,
     forms,
     navigation,
     snapshot_path: null, // filled in by the endpoint after upload
+    http: null, // filled in by the endpoint from the fetch result
   };
 }
 
@@ -364,8 +680,346 @@ export function extractInternalLinks(html: string, url: string, baseOrigin: stri
   return [...links];
 }
 
+// ── Main Content ──
+
+const BOILERPLATE_TAGS = 'script, style, noscript, template, svg, iframe, nav, aside, form, dialog, button, select';
+// Chrome by role or attribute, plus page-builder header/footer templates
+const BOILERPLATE_SELECTORS = '[role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"], [hidden], .elementor-location-header, .elementor-location-footer';
+// Matched against whole class/id tokens — a token may end in one of these
+// words (`elementor-widget-social-icons`), but `hero-banner` or
+// `elementor-widget-container` never match
+const BOILERPLATE_TOKEN = /^(?:[\w-]*[-_])?(?:cookies?|cookie-(?:banner|notice|bar|consent)|consent|gdpr|newsletter|subscribe|share(?:-buttons|-links|-icons)?|sharing|social(?:-icons|-links|-media)?|breadcrumbs?|sidebar|nav-menu|menu|popup|modal|skip-link|sr-only|screen-reader-text|visually-hidden)$|^(?:widget|widget-area|widget_\w+)$/i;
+// A marked element is only chrome when it is short or mostly links
+const MAX_BOILERPLATE_TEXT = 300;
+const MIN_BOILERPLATE_LINK_DENSITY = 0.5;
+// A scored content root widens to an ancestor adding at most this much text
+const MAX_ROOT_GROWTH = 1.5;
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'ul', 'ol', 'li', 'blockquote', 'table', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'figure', 'figcaption', 'dl', 'dt', 'dd']);
+
+/**
+ * Readability-style main content extraction. Strips page chrome and
+ * boilerplate, picks the densest content root, and renders it as Markdown
+ * with heading, list, quote and link structure intact.
+ */
+export function extractMainContent(html: string, url: string): string {
+  const $ = cheerio.load(html);
+
+  $(BOILERPLATE_TAGS).remove();
+  // Site header/footer — but keep <header> blocks inside an article (title, byline)
+  $('header, footer').filter((_, el) => $(el).closest('main, article').length === 0).remove();
+  $(BOILERPLATE_SELECTORS).remove();
+  $('[class], [id]').each((_, el) => {
+    const $el = $(el);
+    if ($el.is('body, main, article')) return;
+    const tokens = `${$el.attr('class') || ''} ${$el.attr('id') || ''}`.split(/\s+/);
+    if (tokens.some((token) => BOILERPLATE_TOKEN.test(token)) && isChrome($el)) $el.remove();
+  });
+
+  let $root = $('main, [role="main"], article').first();
+  if (!$root.length) {
+    // Score containers by non-link text, favouring ones with several paragraphs
+    let bestScore = 0;
+    $('body div, body section').each((_, el) => {
+      const $el = $(el);
+      const score = nonLinkTextLength($el) * (1 + $el.children('p').length * 0.25);
+      if (score > bestScore) {
+        bestScore = score;
+        $root = $el;
+      }
+    });
+
+    // Page builders split one page across sibling wrappers (hero heading,
+    // text widgets, FAQ toggles) — take in the ones next to the winner
+    if ($root.length) {
+      const rootLength = nonLinkTextLength($root);
+      let $parent = $root.parent();
+      while ($parent.is('div, section') && nonLinkTextLength($parent) <= rootLength * MAX_ROOT_GROWTH) {
+        $root = $parent;
+        $parent = $parent.parent();
+      }
+    }
+  }
+  if (!$root.length) $root = $('body');
+
+  const markdown = nodesToMarkdown($, $root.contents().toArray(), url);
+  return markdown.replace(/\n[ \t]+(?=\n)/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function nonLinkTextLength($el: cheerio.Cheerio<Element>): number {
+  const text = $el.text().replace(/\s+/g, ' ').length;
+  const linkText = $el.find('a').text().replace(/\s+/g, ' ').length;
+  return text - linkText;
+}
+
+function isChrome($el: cheerio.Cheerio<Element>): boolean {
+  const textLength = $el.text().replace(/\s+/g, ' ').trim().length;
+  if (textLength < MAX_BOILERPLATE_TEXT) return true;
+  const linkLength = $el.find('a').text().replace(/\s+/g, ' ').trim().length;
+  return linkLength / textLength >= MIN_BOILERPLATE_LINK_DENSITY;
+}
+
+function nodesToMarkdown($: cheerio.CheerioAPI, nodes: AnyNode[], url: string): string {
+  return nodes.map((node) => nodeToMarkdown($, node, url)).join('');
+}
+
+function nodeToMarkdown($: cheerio.CheerioAPI, node: AnyNode, url: string): string {
+  if (node.type === 'text') return node.data.replace(/\s+/g, ' ');
+  if (node.type !== 'tag') return '';
+
+  const tag = node.tagName.toLowerCase();
+  const children = () => nodesToMarkdown($, node.children, url);
+  const inline = () => children().replace(/\s+/g, ' ').trim();
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = inline();
+      return text ? `\n\n${'#'.repeat(parseInt(tag[1], 10))} ${text}\n\n` : '';
+    }
+    case 'p': {
+      const text = inline();
+      return text ? `\n\n${text}\n\n` : '';
+    }
+    case 'br':
+      return '\n';
+    case 'strong': case 'b': {
+      const text = inline();
+      return text ? `**${text}**` : '';
+    }
+    case 'em': case 'i': {
+      const text = inline();
+      return text ? `_${text}_` : '';
+    }
+    case 'a': {
+      const text = inline();
+      const href = $(node).attr('href') || '';
+      if (!text) return '';
+      if (!href || href.startsWith('#') || href.startsWith('javascript:')) return text;
+      try {
+        return `[${text}](${new URL(href, url).href})`;
+      } catch {
+        return text;
+      }
+    }
+    case 'ul': case 'ol': {
+      const items = $(node).children('li').toArray().map((li, i) => {
+        const text = nodesToMarkdown($, li.children, url).replace(/\n{2,}/g, '\n').trim();
+        const bullet = tag === 'ol' ? `${i + 1}.` : '-';
+        return text ? `${bullet} ${text.replace(/\n/g, '\n  ')}` : '';
+      }).filter(Boolean);
+      return items.length ? `\n\n${items.join('\n')}\n\n` : '';
+    }
+    case 'blockquote': {
+      const text = children().replace(/\n{3,}/g, '\n\n').trim();
+      return text ? `\n\n${text.split('\n').map((line) => `> ${line}`.trimEnd()).join('\n')}\n\n` : '';
+    }
+    case 'img': case 'video': case 'audio': case 'picture':
+      return '';
+    default:
+      return BLOCK_TAGS.has(tag) ? `\n\n${children()}\n\n` : children();
+  }
+}
+
+function countWords(markdown: string): number {
+  const words = markdown
+    .replace(/\]\([^)]*\)/g, ']') // link targets aren't content
+    .match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu);
+  return words ? words.length : 0;
+}
+
+/**
+ * Remove Markdown blocks that repeat across many crawled pages — headers,
+ * footers and calls to action that survived per-page extraction.
+ * A block is boilerplate when it appears on at least half the pages
+ * (and on at least three). Mutates and returns the pages.
+ */
+export function stripRepeatedBlocks(pages: PageData[]): PageData[] {
+  if (pages.length < 3) return pages;
+
+  const splitBlocks = (markdown: string) => markdown.split(/\n{2,}/).map((b) => b.trim()).filter(Boolean);
+  const pageCounts = new Map<string, number>();
+  for (const page of pages) {
+    for (const block of new Set(splitBlocks(page.content_markdown || ''))) {
+      pageCounts.set(block, (pageCounts.get(block) || 0) + 1);
+    }
+  }
+
+  const threshold = Math.max(3, Math.ceil(pages.length / 2));
+  for (const page of pages) {
+    const kept = splitBlocks(page.content_markdown || '')
+      .filter((block) => (pageCounts.get(block) || 0) < threshold || /^#\s/.test(block));
+    page.content_markdown = kept.join('\n\n');
+    page.word_count = countWords(page.content_markdown);
+  }
+  return pages;
+}
+
+// ── Testimonials ──
+
+const REVIEW_CONTAINER_SELECTOR = [
+  '[itemtype*="schema.org/Review"]',
+  '[class*="testimonial"]', '[class*="Testimonial"]',
+  '[class*="review"]', '[class*="Review"]',
+].join(', ');
+const QUOTE_SELECTOR = '[itemprop="reviewBody"], [class*="quote"], [class*="text"], [class*="content"], [class*="body"], blockquote, p';
+const AUTHOR_SELECTOR = '[itemprop="author"], [class*="author"], [class*="name"], cite';
+const AUTHOR_TITLE_SELECTOR = '[class*="role"], [class*="position"], [class*="company"], [class*="location"], [class*="title"]';
+
+/**
+ * Extract attributed testimonials from a page, in order of reliability:
+ * JSON-LD Review objects, blockquotes with <cite>/<footer>, then common
+ * review-widget markup. Duplicates (same quote) are merged field by field.
+ */
+function extractTestimonials($: cheerio.CheerioAPI, schema: unknown[], url: string): Testimonial[] {
+  const found: Testimonial[] = [];
+
+  // 1. JSON-LD Review objects
+  for (const review of findSchemaNodes(schema, 'Review')) {
+    const quote = cleanText(String(review.reviewBody || review.description || ''));
+    if (!quote) continue;
+    const author = review.author as Record<string, unknown> | string | undefined;
+    const rating = review.reviewRating as Record<string, unknown> | undefined;
+    found.push({
+      quote,
+      author_name: cleanText(typeof author === 'string' ? author : String(author?.name || '')) || null,
+      author_title: typeof author === 'object' ? cleanText(String(author?.jobTitle || '')) || null : null,
+      rating: rating ? normalizeRating(rating.ratingValue, rating.bestRating) : null,
+      source_page: url,
+    });
+  }
+
+  // 2. Blockquotes with an attribution inside
+  $('blockquote').each((_, el) => {
+    const $el = $(el);
+    const $attribution = $el.find('cite, footer').first();
+    const quote = cleanText($el.clone().find('cite, footer').remove().end().text());
+    if (quote.length <= 20 || quote.length >= 2000) return;
+    const attribution = cleanText($attribution.text()).replace(/^[-—–~\s]+/, '');
+    const [name, ...titleParts] = attribution.split(/,\s*/);
+    found.push({
+      quote,
+      author_name: name || null,
+      author_title: titleParts.join(', ') || null,
+      rating: null,
+      source_page: url,
+    });
+  });
+
+  // 3. Review widgets. A container is a single review "card" unless it holds
+  //    several authors or several nested review blocks — then it's a wrapper
+  //    (e.g. a testimonials section) and its children are read instead.
+  const cards = new Set<unknown>();
+  $(REVIEW_CONTAINER_SELECTOR).each((_, el) => {
+    const $el = $(el);
+    if ($el.parents().toArray().some((parent) => cards.has(parent))) return;
+    // "Read our reviews" links and menu items borrow the class names too
+    if ($el.closest('a, button, nav').length > 0) return;
+
+    const $authors = $el.find(AUTHOR_SELECTOR).not(AUTHOR_TITLE_SELECTOR);
+    const $quotes = $el.find(QUOTE_SELECTOR)
+      .not(AUTHOR_SELECTOR).not(AUTHOR_TITLE_SELECTOR)
+      .filter((_, q) => cleanText($(q).text()).length > 20)
+      .filter((_, q) => $(q).find(QUOTE_SELECTOR).filter((_, inner) => cleanText($(inner).text()).length > 20).length === 0);
+    const nestedContainers = $el.find(REVIEW_CONTAINER_SELECTOR).filter((_, c) => $(c).find(AUTHOR_SELECTOR).length > 0);
+    if ($authors.length > 1 || ($quotes.length > 1 && nestedContainers.length > 1)) return;
+
+    const quote = cleanText($quotes.length
+      ? $quotes.toArray().map((q) => $(q).text()).join(' ')
+      : $el.text());
+    if (quote.length <= 20 || quote.length >= 2000) return;
+    cards.add(el);
+
+    const author_name = cleanText($authors.first().text()).replace(/^[-—–~\s]+/, '') || null;
+    const $title = $el.find(AUTHOR_TITLE_SELECTOR).not($authors.first()).first();
+    found.push({
+      quote,
+      author_name: author_name && author_name !== quote ? author_name : null,
+      author_title: cleanText($title.text()) || null,
+      rating: readWidgetRating($, $el),
+      source_page: url,
+    });
+  });
+
+  // Merge duplicates, keeping the first non-empty value for each field
+  const byQuote = new Map<string, Testimonial>();
+  for (const t of found) {
+    const key = t.quote.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 120);
+    const existing = byQuote.get(key);
+    if (!existing) {
+      byQuote.set(key, t);
+      continue;
+    }
+    existing.author_name ??= t.author_name;
+    existing.author_title ??= t.author_title;
+    existing.rating ??= t.rating;
+  }
+  return [...byQuote.values()];
+}
+
+/** Star rating from widget markup: itemprop, data attributes, aria labels, or filled star icons. */
+function readWidgetRating($: cheerio.CheerioAPI, $el: ReturnType<cheerio.CheerioAPI>): number | null {
+  const itemprop = $el.find('[itemprop="ratingValue"]').first();
+  if (itemprop.length) {
+    return normalizeRating(itemprop.attr('content') || itemprop.text(), $el.find('[itemprop="bestRating"]').attr('content'));
+  }
+
+  const dataRating = $el.find('[data-rating], [data-score]').addBack('[data-rating], [data-score]').first();
+  if (dataRating.length) {
+    return normalizeRating(dataRating.attr('data-rating') || dataRating.attr('data-score'), null);
+  }
+
+  const label = $el.find('[aria-label*="star" i], [title*="star" i]').first();
+  const labelText = label.attr('aria-label') || label.attr('title') || '';
+  const labelMatch = labelText.match(/([\d.]+)\s*(?:out of|\/)\s*([\d.]+)/i) || labelText.match(/([\d.]+)\s*stars?/i);
+  if (labelMatch) return normalizeRating(labelMatch[1], labelMatch[2]);
+
+  const stars = $el.find('[class*="star"]').filter((_, star) => {
+    const cls = $(star).attr('class') || '';
+    return !/empty|outline|inactive|off|half/i.test(cls) && $(star).children().length === 0;
+  });
+  return stars.length > 0 && stars.length <= 5 ? stars.length : null;
+}
+
+function findAggregateRating(schema: unknown[]): AggregateRating | null {
+  for (const node of findSchemaNodes(schema, 'AggregateRating')) {
+    const rating_value = normalizeRating(node.ratingValue, node.bestRating);
+    if (rating_value === null) continue;
+    const count = parseInt(String(node.reviewCount ?? node.ratingCount ?? ''), 10);
+    return { rating_value, review_count: isNaN(count) ? null : count };
+  }
+  return null;
+}
+
+/** Convert a rating on any scale to 1–5 stars (one decimal). */
+function normalizeRating(value: unknown, best: unknown): number | null {
+  const rating = parseFloat(String(value ?? ''));
+  if (isNaN(rating) || rating <= 0) return null;
+  const scale = parseFloat(String(best ?? '')) || 5;
+  const normalized = Math.round((rating / scale) * 50) / 10;
+  return normalized > 0 && normalized <= 5 ? normalized : null;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().replace(/^["“”]+|["“”]+$/g, '').trim();
+}
+
 // ── Helpers ──
 
+/** Collect every JSON-LD node (including @graph members and nested values) of a given @type. */
+function findSchemaNodes(obj: unknown, type: string, found: Record<string, unknown>[] = []): Record<string, unknown>[] {
+  if (!obj || typeof obj !== 'object') return found;
+  if (Array.isArray(obj)) {
+    for (const item of obj) findSchemaNodes(item, type, found);
+    return found;
+  }
+  const o = obj as Record<string, unknown>;
+  const nodeType = o['@type'];
+  if (nodeType === type || (Array.isArray(nodeType) && nodeType.includes(type))) found.push(o);
+  for (const val of Object.values(o)) {
+    if (typeof val === 'object') findSchemaNodes(val, type, found);
+  }
+  return found;
+}
+
 function findPostalAddress(obj: unknown): string | null {
   if (!obj || typeof obj !== 'object') return null;
   const o = obj as Record<string, unknown>;
@@ -397,11 +1051,512 @@ function findPostalAddress(obj: unknown): string | null {
   return null;
 }
 
-// ── Sitemap Parser ──
+// ── Locations ──
+
+/**
+ * Pull every business location out of JSON-LD: any node with a PostalAddress
+ * (LocalBusiness and its subtypes, Organization locations, Places), plus
+ * bare PostalAddress nodes. Phone, hours and geo come from the owning node.
+ */
+export function extractLocations(schema: unknown[], pageUrl: string): BusinessLocation[] {
+  const locations: BusinessLocation[] = [];
+  const claimed = new Set<unknown>();
+
+  const visit = (obj: unknown) => {
+    if (!obj || typeof obj !== 'object') return;
+    if (Array.isArray(obj)) {
+      obj.forEach(visit);
+      return;
+    }
+    const o = obj as Record<string, unknown>;
+
+    for (const address of [o.address].flat()) {
+      if (!isPostalAddress(address)) continue;
+      claimed.add(address);
+      locations.push(buildLocation(address as Record<string, unknown>, o, pageUrl));
+    }
+    if (isPostalAddress(o) && o['@type'] === 'PostalAddress' && !claimed.has(o)) {
+      claimed.add(o);
+      locations.push(buildLocation(o, {}, pageUrl));
+    }
 
-export function parseSitemapXml(xml: string, baseOrigin: string): string[] {
+    for (const [key, val] of Object.entries(o)) {
+      if (key !== 'address' && typeof val === 'object') visit(val);
+    }
+  };
+
+  visit(schema);
+  return dedupeLocations(locations);
+}
+
+function isPostalAddress(obj: unknown): boolean {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
+  const o = obj as Record<string, unknown>;
+  return o['@type'] === 'PostalAddress' || typeof o.streetAddress === 'string';
+}
+
+function buildLocation(
+  address: Record<string, unknown>,
+  owner: Record<string, unknown>,
+  pageUrl: string,
+): BusinessLocation {
+  const text = (val: unknown) => (typeof val === 'string' && val.trim() ? cleanText(val) : null);
+  const country = address.addressCountry;
+
+  return {
+    name: owner['@type'] === 'PostalAddress' ? null : text(owner.name),
+    street: text(address.streetAddress),
+    city: text(address.addressLocality),
+    state: text(address.addressRegion),
+    zip: text(address.postalCode),
+    country: text(typeof country === 'object' && country ? (country as Record<string, unknown>).name : country),
+    phone: text(owner.telephone) || text(address.telephone),
+    hours: readOpeningHours(owner),
+    geo: readGeo(owner.geo),
+    source_page: pageUrl,
+  };
+}
+
+function readGeo(geo: unknown): { lat: number; lng: number } | null {
+  if (!geo || typeof geo !== 'object') return null;
+  const g = geo as Record<string, unknown>;
+  const lat = parseFloat(String(g.latitude));
+  const lng = parseFloat(String(g.longitude));
+  return isNaN(lat) || isNaN(lng) ? null : { lat, lng };
+}
+
+/**
+ * Merge locations that share a street address (or, without one, a name and
+ * city), filling gaps from later duplicates. Order of first appearance is kept.
+ */
+export function dedupeLocations(locations: BusinessLocation[]): BusinessLocation[] {
+  const byKey = new Map<string, BusinessLocation>();
+  const normalize = (val: string | null) => (val || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+  for (const location of locations) {
+    const key = location.street
+      ? `${normalize(location.street)}|${normalize(location.zip) || normalize(location.city)}`
+      : `${normalize(location.name)}|${normalize(location.city)}`;
+    if (key === '|') continue;
+
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...location });
+      continue;
+    }
+    existing.name ??= location.name;
+    existing.city ??= location.city;
+    existing.state ??= location.state;
+    existing.zip ??= location.zip;
+    existing.country ??= location.country;
+    existing.phone ??= location.phone;
+    existing.geo ??= location.geo;
+    existing.hours ??= location.hours;
+  }
+
+  return [...byKey.values()];
+}
+
+// ── Opening hours ──
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Word-boundary day tokens: full names and abbreviations
+const DAY_PATTERN = /\b(mon(?:days?)?|tue(?:s(?:days?)?)?|wed(?:nesdays?)?|thu(?:r(?:s(?:days?)?)?)?|fri(?:days?)?|sat(?:urdays?)?|sun(?:days?)?)\b\.?/g;
+// schema.org openingHours codes ("Mo-Fr") — only in structured data, "we"/"su" are words in prose
+const DAY_CODE_PATTERN = /\b(mo|tu|we|th|fr|sa|su)\b/g;
+const DAY_GROUPS: [RegExp, Weekday[]][] = [
+  [/\b(daily|every ?day|7 days( a week)?|mon(day)? ?- ?sun(day)?)\b/, WEEKDAYS],
+  [/\bweekdays\b/, WEEKDAYS.slice(0, 5)],
+  [/\bweekends?\b/, WEEKDAYS.slice(5)],
+];
+const TIME_RANGE_PATTERN = /(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?\s*-\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/g;
+const CLOSED_PATTERN = /\bclosed\b/;
+const ALL_DAY_PATTERN = /\b(24 ?hours|24\/7|open 24)\b/;
+
+function emptyWeek(): Record<Weekday, TimeRange[]> {
+  return { monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [] };
+}
+
+/**
+ * Read JSON-LD hours from a LocalBusiness-like node. `openingHours` strings
+ * ("Mo-Fr 08:00-17:00") and `openingHoursSpecification` are both supported;
+ * specifications with validFrom dates become exceptions.
+ */
+function readOpeningHours(node: Record<string, unknown>): OpeningHours | null {
+  const lines = [node.openingHours].flat()
+    .filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '')
+    // "Mo-Fr 08:00-17:00, Sa 09:00-12:00" — split only after a time, not inside "Mo,Tu"
+    .flatMap((entry) => entry.split(/(?<=\d)\s*,\s*/));
+
+  const parsed = parseHoursLines(lines, DAY_CODE_PATTERN);
+  const hours: OpeningHours = { weekly: parsed?.weekly || emptyWeek(), exceptions: [], source: 'schema' };
+  let found = !!parsed;
+
+  const specs = [node.openingHoursSpecification, node.specialOpeningHoursSpecification].flat();
+  for (const spec of specs) {
+    if (!spec || typeof spec !== 'object') continue;
+    const { dayOfWeek, opens, closes, validFrom, validThrough } = spec as Record<string, unknown>;
+    const range = typeof opens === 'string' && typeof closes === 'string' && opens !== closes
+      ? [{ opens: opens.slice(0, 5), closes: closes.slice(0, 5) }]
+      : []; // opens == closes (usually 00:00) means closed
+
+    if (typeof validFrom === 'string' && /^\d{4}-\d{2}-\d{2}/.test(validFrom)) {
+      const date = validFrom.slice(0, 10);
+      if (typeof validThrough !== 'string' || validThrough.slice(0, 10) === date) {
+        hours.exceptions.push({ date, hours: range });
+        found = true;
+        continue;
+      }
+    }
+
+    for (const day of [dayOfWeek].flat()) {
+      const weekday = String(day).split('/').pop()!.toLowerCase() as Weekday;
+      if (!WEEKDAYS.includes(weekday)) continue;
+      hours.weekly[weekday].push(...range);
+      found = true;
+    }
+  }
+
+  return found ? hours : null;
+}
+
+/**
+ * Find opening hours written out in the page: table rows, list items and
+ * short blocks that pair day names with times ("Mon – Fri: 8am – 5pm",
+ * "Sunday: Closed"). The innermost element holding both is used.
+ */
+export function extractHoursFromHtml($: cheerio.CheerioAPI): OpeningHours | null {
+  const lines: string[] = [];
+  const candidates = $('body').find('tr, li, dt, p, div, span, td').not('script, style, noscript');
+
+  candidates.each((_, el) => {
+    const $el = $(el);
+    let text = spacedText(el);
+    // <dt>Monday</dt><dd>9–5</dd>
+    if (el.tagName === 'dt') text += ` ${spacedText($el.next('dd')[0])}`;
+    if (text.length === 0 || text.length > 100 || !isHoursLine(text)) return;
+    // Skip wrappers whose child already holds the whole line
+    const childHasIt = $el.children().toArray().some((child) => isHoursLine(spacedText(child)));
+    if (!childHasIt) lines.push(text);
+  });
+
+  const parsed = parseHoursLines([...new Set(lines)]);
+  if (!parsed) return null;
+  // One stray "Open Monday 9-5" isn't a schedule
+  const openDays = WEEKDAYS.filter((day) => parsed.weekly[day].length > 0 || parsed.closed.has(day));
+  if (openDays.length < 2) return null;
+  return { weekly: parsed.weekly, exceptions: [], source: 'html' };
+}
+
+/** Element text with a space between every text node, so "<td>Sat</td><td>9-2</td>" keeps its words apart. */
+function spacedText(node: AnyNode | undefined): string {
+  const parts: string[] = [];
+  const walk = (n: AnyNode) => {
+    if (n.type === 'text') parts.push(n.data);
+    else if ('children' in n) n.children.forEach(walk);
+  };
+  if (node) walk(node);
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function isHoursLine(text: string): boolean {
+  const lower = text.toLowerCase();
+  const hasDay = new RegExp(DAY_PATTERN.source).test(lower) || DAY_GROUPS.some(([pattern]) => pattern.test(lower));
+  const hasTime = new RegExp(TIME_RANGE_PATTERN.source).test(lower.replace(/[–—]|\bto\b/g, '-'))
+    || CLOSED_PATTERN.test(lower)
+    || ALL_DAY_PATTERN.test(lower);
+  return hasDay && hasTime;
+}
+
+/** Parse day/time lines into a week; the first line to mention a day wins. */
+function parseHoursLines(lines: string[], dayPattern = DAY_PATTERN): { weekly: Record<Weekday, TimeRange[]>; closed: Set<Weekday> } | null {
+  const weekly = emptyWeek();
+  const assigned = new Set<Weekday>();
+  const closed = new Set<Weekday>();
+
+  for (const line of lines) {
+    const lower = line.toLowerCase().replace(/[–—]|\b(to|thru|through|until)\b/g, '-');
+    const days = parseDays(lower, dayPattern);
+    if (days.length === 0) continue;
+
+    let ranges: TimeRange[];
+    if (ALL_DAY_PATTERN.test(lower)) {
+      ranges = [{ opens: '00:00', closes: '23:59' }];
+    } else {
+      ranges = [...lower.matchAll(TIME_RANGE_PATTERN)]
+        .map(toTimeRange)
+        .filter((range): range is TimeRange => range !== null);
+      if (ranges.length === 0 && !CLOSED_PATTERN.test(lower)) continue;
+    }
+
+    for (const day of days) {
+      if (assigned.has(day)) continue;
+      assigned.add(day);
+      weekly[day] = ranges;
+      if (ranges.length === 0) closed.add(day);
+    }
+  }
+
+  return assigned.size > 0 ? { weekly, closed } : null;
+}
+
+/** Days named before the first time: ranges ("Mon - Fri"), lists ("Sat, Sun") and groups ("Weekdays"). */
+function parseDays(lower: string, dayPattern: RegExp): Weekday[] {
+  for (const [pattern, days] of DAY_GROUPS) {
+    if (pattern.test(lower)) return days;
+  }
+
+  const dayPart = lower.split(/\d|closed/)[0];
+
+  const tokens = [...dayPart.matchAll(dayPattern)];
+  const days: Weekday[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const day = toWeekday(tokens[i][1]);
+    const between = tokens[i + 1] ? dayPart.slice(tokens[i].index! + tokens[i][0].length, tokens[i + 1].index) : '';
+    if (between.includes('-') && tokens[i + 1]) {
+      const end = toWeekday(tokens[i + 1][1]);
+      const start = WEEKDAYS.indexOf(day);
+      const span = (WEEKDAYS.indexOf(end) - start + 7) % 7;
+      for (let d = 0; d <= span; d++) days.push(WEEKDAYS[(start + d) % 7]);
+      i++;
+    } else {
+      days.push(day);
+    }
+  }
+  return [...new Set(days)];
+}
+
+function toWeekday(token: string): Weekday {
+  return WEEKDAYS.find((day) => day.startsWith(token.slice(0, 2)))!;
+}
+
+/** "8am-5pm", "8:30 - 17:00", "9-5" → 24h strings. Bare hours assume a daytime schedule. */
+function toTimeRange(match: RegExpMatchArray): TimeRange | null {
+  const [, h1, m1 = '00', s1, h2, m2 = '00', s2] = match;
+  let opens = Number(h1);
+  let closes = Number(h2);
+  if (opens > 24 || closes > 24 || Number(m1) > 59 || Number(m2) > 59) return null;
+
+  const isPm = (suffix?: string) => suffix?.startsWith('p');
+  const isAm = (suffix?: string) => suffix?.startsWith('a');
+  const to24 = (hour: number, suffix?: string) => {
+    if (isPm(suffix) && hour < 12) return hour + 12;
+    if (isAm(suffix) && hour === 12) return 0;
+    return hour;
+  };
+
+  const twelveHour = !!(s1 || s2) || (opens <= 12 && closes <= 12);
+  if (twelveHour) {
+    closes = to24(closes, s2 || (closes <= opens ? 'pm' : undefined));
+    // "8-5pm" → 8am; "1-5pm" → 1pm
+    opens = to24(opens, s1 || (s2 && isPm(s2) && opens + 12 < closes ? 'pm' : undefined));
+  }
+
+  const format = (hour: number, minutes: string) => `${String(hour % 24).padStart(2, '0')}:${minutes}`;
+  return { opens: format(opens, m1), closes: format(closes, m2) };
+}
+
+// ── Forms ──
+
+/** <label for>, a wrapping <label>, then aria-label. Required-field asterisks are kept. */
+function readFieldLabel($: cheerio.CheerioAPI, $field: ReturnType<cheerio.CheerioAPI>): string | null {
+  const id = $field.attr('id');
+  const $for = id ? $(`label[for="${id.replace(/"/g, '\\"')}"]`).first() : null;
+  const $wrapping = $field.closest('label');
+  const text = ($for && $for.length > 0 ? cleanText($for.text()) : '')
+    || ($wrapping.length > 0 ? cleanText($wrapping.clone().find('select, textarea').remove().end().text()) : '')
+    || cleanText($field.attr('aria-label') || '');
+  return text || null;
+}
+
+// ── Navigation ──
+
+const MAX_NAV_DEPTH = 3; // top level → dropdown → flyout
+// Most specific first: a nav in the header beats a stray nav in the body
+const NAV_CONTAINERS = ['header nav, header [role="navigation"]', 'nav, [role="navigation"]', 'header'];
+const NAV_SKIP_HREF = /^(tel|mailto|sms):/i;
+
+/**
+ * Rebuild the primary menu as a tree: top-level items in order, with
+ * dropdown children read from nested lists. The largest menu found wins
+ * (a mobile copy of the same menu is never larger); footer menus are
+ * ignored. Menus that aren't built from lists fall back to flat links.
+ */
+export function extractNavigation($: cheerio.CheerioAPI, url: string, baseOrigin: string): NavItem[] {
+  for (const selector of NAV_CONTAINERS) {
+    let best: NavItem[] = [];
+    let bestSize = 0;
+
+    $(selector).each((_, container) => {
+      if ($(container).closest('footer').length > 0) return;
+
+      // Top-level lists aren't nested inside another list
+      let menu: NavItem[] = [];
+      $(container).find('ul, ol')
+        .not('ul ul, ul ol, ol ul, ol ol')
+        .each((_, list) => {
+          menu = mergeNavItems(menu, readMenuList($, $(list), url, baseOrigin, 1));
+        });
+
+      if (menu.length === 0) {
+        $(container).find('a').each((_, a) => {
+          const item = readMenuItem($(a), url, baseOrigin);
+          if (item?.href) menu = mergeNavItems(menu, [item]);
+        });
+      }
+
+      const size = countNavItems(menu);
+      if (size > bestSize) {
+        best = menu;
+        bestSize = size;
+      }
+    });
+
+    if (best.length > 0) return best;
+  }
+  return [];
+}
+
+function readMenuList(
+  $: cheerio.CheerioAPI,
+  $list: ReturnType<cheerio.CheerioAPI>,
+  url: string,
+  baseOrigin: string,
+  depth: number,
+): NavItem[] {
+  let items: NavItem[] = [];
+
+  $list.children('li').each((_, li) => {
+    const $li = $(li);
+    // The item's own link (or dropdown toggle) is outside its submenus
+    const isOwn = (el: Element) => $(el).closest('ul, ol')[0] === $list[0];
+    const label = $li.find('a').toArray().find(isOwn)
+      || $li.find('button, span').toArray().find((el) => isOwn(el) && !!navLabel($(el)));
+    if (!label) return;
+
+    const children = depth < MAX_NAV_DEPTH
+      ? $li.find('ul, ol')
+        .filter((_, sub) => $(sub).parent().closest('li')[0] === li)
+        .toArray()
+        .reduce<NavItem[]>((acc, sub) => mergeNavItems(acc, readMenuList($, $(sub), url, baseOrigin, depth + 1)), [])
+      : [];
+
+    const item = readMenuItem($(label), url, baseOrigin, children);
+    // Toggles that open nothing aren't menu items
+    if (item && (item.href || item.children.length > 0)) items = mergeNavItems(items, [item]);
+  });
+
+  return items;
+}
+
+function readMenuItem(
+  $el: ReturnType<cheerio.CheerioAPI>,
+  url: string,
+  baseOrigin: string,
+  children: NavItem[] = [],
+): NavItem | null {
+  const rawHref = $el.is('a') ? $el.attr('href') || '' : '';
+  if (NAV_SKIP_HREF.test(rawHref)) return null;
+  const text = navLabel($el);
+  if (!text) return null;
+  return { text, href: toNavHref(rawHref, url, baseOrigin), children };
+}
+
+/** Visible text, else aria-label; dropdown arrows are dropped. */
+function navLabel($el: ReturnType<cheerio.CheerioAPI>): string {
+  const text = cleanText($el.text()) || cleanText($el.attr('aria-label') || '');
+  return text.replace(/\s*[▾▼⌄›»+]+$/, '').trim();
+}
+
+/** Same-site links become paths (keeping any #fragment); external links stay absolute. */
+function toNavHref(href: string, pageUrl: string, baseOrigin: string): string | null {
+  if (!href || href === '#' || /^javascript:/i.test(href)) return null;
+  try {
+    const parsed = new URL(href, pageUrl);
+    if (!/^https?:$/.test(parsed.protocol)) return null;
+    const host = (h: string) => h.replace(/^www\./, '');
+    if (host(parsed.hostname) !== host(new URL(baseOrigin).hostname)) return parsed.href;
+    const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/$/, '') : parsed.pathname;
+    return `${path}${parsed.hash}`;
+  } catch {
+    return null;
+  }
+}
+
+function countNavItems(items: NavItem[]): number {
+  return items.reduce((n, item) => n + 1 + countNavItems(item.children), 0);
+}
+
+/** Items match on href, or on text when either one is a toggle without a link. */
+function sameNavItem(a: NavItem, b: NavItem): boolean {
+  return a.href && b.href ? a.href === b.href : a.text.toLowerCase() === b.text.toLowerCase();
+}
+
+/** Merge `items` into `target` in place, recursively; first-seen order is kept. */
+function mergeNavItems(target: NavItem[], items: NavItem[]): NavItem[] {
+  for (const item of items) {
+    const existing = target.find((t) => sameNavItem(t, item));
+    if (existing) {
+      existing.href ??= item.href;
+      existing.children = mergeNavItems(existing.children, item.children || []);
+    } else {
+      target.push({ ...item, children: mergeNavItems([], item.children || []) });
+    }
+  }
+  return target;
+}
+
+/**
+ * Combine the menus scraped from each page into the site menu. The first
+ * menu (the homepage's) sets the order; later menus only contribute when at
+ * least half their top-level items are already in it, so landing pages
+ * with a menu of their own don't leak in.
+ */
+export function mergeNavigation(menus: NavItem[][]): NavItem[] {
+  const merged: NavItem[] = [];
+  for (const menu of menus) {
+    if (menu.length === 0) continue;
+    const shared = menu.filter((item) => merged.some((m) => sameNavItem(m, item))).length;
+    if (merged.length > 0 && shared < menu.length / 2) continue;
+    mergeNavItems(merged, menu);
+  }
+  return merged;
+}
+
+// ── Sitemaps ──
+
+const SITEMAP_TIMEOUT = 5000;
+const MAX_SITEMAP_DEPTH = 3; // sitemap.xml → index → child sitemap
+const MAX_SITEMAP_FILES = 25; // keep discovery inside the function time limit
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024; // sitemaps.org cap for one uncompressed sitemap
+
+/**
+ * Collect the `Sitemap:` directives from robots.txt.
+ * These apply regardless of user-agent group, per the sitemaps.org spec.
+ */
+export function parseRobotsSitemaps(robotsTxt: string): string[] {
+  const sitemaps: string[] = [];
+
+  for (const line of robotsTxt.split('\n')) {
+    const match = line.trim().match(/^sitemap:\s*(\S+)/i);
+    if (!match) continue;
+    try {
+      sitemaps.push(new URL(match[1]).href);
+    } catch { /* skip malformed sitemap URL */ }
+  }
+
+  return [...new Set(sitemaps)];
+}
+
+/**
+ * Parse a sitemap document. A `<urlset>` yields page URLs (same-origin only);
+ * a `<sitemapindex>` yields child sitemap URLs to fetch next.
+ */
+export function parseSitemapXml(xml: string, baseOrigin: string): { urls: string[]; sitemaps: string[] } {
   const $ = cheerio.load(xml, { xml: true });
   const urls: string[] = [];
+  const sitemaps: string[] = [];
   const origin = new URL(baseOrigin).origin;
 
   $('url > loc').each((_, el) => {
@@ -412,5 +1567,79 @@ export function parseSitemapXml(xml: string, baseOrigin: string): string[] {
     }
   });
 
-  return urls;
+  $('sitemapindex > sitemap > loc').each((_, el) => {
+    const loc = $(el).text().trim();
+    if (!loc) return;
+    try {
+      sitemaps.push(new URL(loc, origin).href);
+    } catch { /* skip malformed child sitemap */ }
+  });
+
+  return { urls, sitemaps };
+}
+
+/**
+ * Fetch a sitemap file and return its XML, decompressing gzip bodies.
+ * Servers that send `Content-Encoding: gzip` are already decoded by fetch,
+ * so detection uses the gzip magic bytes rather than the URL or headers.
+ * Decompression stops at MAX_SITEMAP_BYTES, so a gzip bomb yields null.
+ */
+export async function fetchSitemap(url: string, fetcher: Fetcher = defaultFetcher()): Promise<string | null> {
+  try {
+    const response = await fetcher(url, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(SITEMAP_TIMEOUT),
+      redirect: 'follow',
+    });
+    if (!response.ok) return null;
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+    return (isGzip ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }) : body).toString('utf-8');
+  } catch (err) {
+    console.error(`fetchSitemap failed for ${url}:`, (err as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Walk sitemaps breadth-first from the given entry points, following
+ * sitemap indexes up to MAX_SITEMAP_DEPTH levels. Each sitemap file is fetched
+ * once and each page URL is reported once, tagged with the sitemap it came from.
+ */
+export async function discoverSitemapUrls(
+  entryPoints: string[],
+  baseOrigin: string,
+  fetcher: Fetcher = defaultFetcher(),
+): Promise<SitemapEntry[]> {
+  const entries: SitemapEntry[] = [];
+  const seenUrls = new Set<string>();
+  const seenSitemaps = new Set<string>();
+  let level = [...new Set(entryPoints)];
+
+  for (let depth = 0; depth < MAX_SITEMAP_DEPTH && level.length > 0; depth++) {
+    const batch = level
+      .filter((url) => !seenSitemaps.has(url))
+      .slice(0, MAX_SITEMAP_FILES - seenSitemaps.size);
+    batch.forEach((url) => seenSitemaps.add(url));
+
+    const results = await Promise.all(
+      batch.map(async (sitemap) => ({ sitemap, xml: await fetchSitemap(sitemap, fetcher) })),
+    );
+
+    const next: string[] = [];
+    for (const { sitemap, xml } of results) {
+      if (!xml) continue;
+      const parsed = parseSitemapXml(xml, baseOrigin);
+      for (const url of parsed.urls) {
+        if (seenUrls.has(url)) continue;
+        seenUrls.add(url);
+        entries.push({ url, sitemap });
+      }
+      next.push(...parsed.sitemaps);
+    }
+    level = next;
+  }
+
+  return entries;
 }
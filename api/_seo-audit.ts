@@ -0,0 +1,240 @@
+import { z } from 'astro/zod';
+
+/**
+ * SEO migration audit over a client's scraped_data.
+ * NOT a route (underscore prefix).
+ *
+ * Flags the on-page problems that tend to cost rankings in a migration:
+ * missing or duplicate titles and descriptions, H1 count, off-site
+ * canonicals, missing alt text, thin content and orphan pages.
+ */
+
+// ── Types ──
+
+export interface SeoAudit {
+  audited_at: string;
+  source_url: string;
+  pages_audited: number;
+  summary: {
+    missing_titles: number;
+    duplicate_titles: number;
+    missing_descriptions: number;
+    duplicate_descriptions: number;
+    h1_problems: number;
+    offsite_canonicals: number;
+    images_missing_alt: number;
+    thin_pages: number;
+    orphan_pages: number;
+  };
+  issues: {
+    missing_titles: string[];
+    duplicate_titles: { value: string; urls: string[] }[];
+    missing_descriptions: string[];
+    duplicate_descriptions: { value: string; urls: string[] }[];
+    h1_problems: { url: string; h1_count: number }[];
+    offsite_canonicals: { url: string; canonical: string }[];
+    images_missing_alt: { url: string; images: string[] }[];
+    thin_pages: { url: string; word_count: number }[];
+    orphan_pages: string[];
+  };
+}
+
+// ── Input ──
+
+/**
+ * The parts of ScrapedData the audit reads. scraped_data can come straight
+ * from a request body, so it is checked before auditing; list fields older
+ * scrapes may lack default to empty.
+ */
+const auditPageSchema = z.object({
+  url: z.string().url(),
+  title: z.string().nullish(),
+  meta_description: z.string().nullish(),
+  canonical: z.string().nullish(),
+  headings: z.array(z.object({ level: z.number().int(), text: z.string() })).default([]),
+  images: z.array(z.object({ src: z.string(), alt: z.string().nullish() })).default([]),
+  internal_links: z.array(z.string()).default([]),
+  word_count: z.number().nonnegative().optional(),
+  body_text: z.string().nullish(),
+});
+
+const auditInputSchema = z.object({
+  source_url: z.string().url(),
+  pages: z.array(auditPageSchema),
+});
+
+type AuditPage = z.infer<typeof auditPageSchema>;
+export type AuditInput = z.infer<typeof auditInputSchema>;
+
+/** Validate `value` as audit input. Errors are "path: message" lines. */
+export function parseAuditInput(value: unknown): { input: AuditInput | null; errors: string[] } {
+  const result = auditInputSchema.safeParse(value);
+  if (result.success) return { input: result.data, errors: [] };
+  return {
+    input: null,
+    errors: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+// ── Thresholds ──
+
+const THIN_PAGE_WORDS = 300;
+
+// ── Audit ──
+
+export function auditScrapedData(scraped: AuditInput): SeoAudit {
+  const pages = scraped.pages;
+  const origin = new URL(scraped.source_url).origin;
+
+  const issues: SeoAudit['issues'] = {
+    missing_titles: pages.filter((p) => !p.title?.trim()).map((p) => p.url),
+    duplicate_titles: findDuplicates(pages, (p) => p.title),
+    missing_descriptions: pages.filter((p) => !p.meta_description?.trim()).map((p) => p.url),
+    duplicate_descriptions: findDuplicates(pages, (p) => p.meta_description),
+    h1_problems: pages
+      .map((p) => ({ url: p.url, h1_count: p.headings.filter((h) => h.level === 1).length }))
+      .filter((p) => p.h1_count !== 1),
+    offsite_canonicals: pages
+      .filter((p) => p.canonical && !isSameSite(p.canonical, origin))
+      .map((p) => ({ url: p.url, canonical: p.canonical! })),
+    images_missing_alt: pages
+      .map((p) => ({ url: p.url, images: p.images.filter((img) => !img.alt?.trim()).map((img) => img.src) }))
+      .filter((p) => p.images.length > 0),
+    thin_pages: pages
+      .map((p) => ({ url: p.url, word_count: pageWordCount(p) }))
+      .filter((p) => p.word_count < THIN_PAGE_WORDS),
+    orphan_pages: findOrphans(pages),
+  };
+
+  return {
+    audited_at: new Date().toISOString(),
+    source_url: scraped.source_url,
+    pages_audited: pages.length,
+    summary: {
+      missing_titles: issues.missing_titles.length,
+      duplicate_titles: issues.duplicate_titles.length,
+      missing_descriptions: issues.missing_descriptions.length,
+      duplicate_descriptions: issues.duplicate_descriptions.length,
+      h1_problems: issues.h1_problems.length,
+      offsite_canonicals: issues.offsite_canonicals.length,
+      images_missing_alt: issues.images_missing_alt.reduce((n, p) => n + p.images.length, 0),
+      thin_pages: issues.thin_pages.length,
+      orphan_pages: issues.orphan_pages.length,
+    },
+    issues,
+  };
+}
+
+/** Group pages by a normalized field value; only groups with 2+ pages are returned. */
+function findDuplicates(
+  pages: AuditPage[],
+  field: (page: AuditPage) => string | null | undefined,
+): { value: string; urls: string[] }[] {
+  const groups = new Map<string, { value: string; urls: string[] }>();
+  for (const page of pages) {
+    const value = field(page)?.trim();
+    if (!value) continue;
+    const key = value.toLowerCase().replace(/\s+/g, ' ');
+    const group = groups.get(key) || { value, urls: [] };
+    group.urls.push(page.url);
+    groups.set(key, group);
+  }
+  return [...groups.values()].filter((g) => g.urls.length > 1);
+}
+
+/** www and non-www count as the same site; anything else is off-site. */
+function isSameSite(url: string, origin: string): boolean {
+  try {
+    const host = (h: string) => h.replace(/^www\./, '');
+    return host(new URL(url, origin).hostname) === host(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Pages scraped before word counts existed fall back to body text. */
+function pageWordCount(page: AuditPage): number {
+  if (typeof page.word_count === 'number') return page.word_count;
+  return (page.body_text || '').split(/\s+/).filter(Boolean).length;
+}
+
+/** Pages no other scraped page links to. The homepage is never an orphan. */
+function findOrphans(pages: AuditPage[]): string[] {
+  const linked = new Set<string>();
+  for (const page of pages) {
+    const self = pathKey(page.url);
+    for (const link of page.internal_links) {
+      const key = pathKey(link);
+      if (key !== self) linked.add(key);
+    }
+  }
+
+  return pages
+    .filter((p) => {
+      const key = pathKey(p.url);
+      return key !== '/' && !linked.has(key);
+    })
+    .map((p) => p.url);
+}
+
+/** Compare by path so www/non-www and trailing-slash variants match. */
+function pathKey(url: string): string {
+  try {
+    const path = new URL(url).pathname;
+    return path.length > 1 ? path.replace(/\/$/, '') : path;
+  } catch {
+    return url;
+  }
+}
+
+// ── Markdown report ──
+
+export function auditToMarkdown(audit: SeoAudit, heading = 'SEO Audit'): string {
+  const { issues, summary } = audit;
+  const lines: string[] = [
+    `# ${heading}`,
+    '',
+    `Source: ${audit.source_url}  `,
+    `Audited: ${audit.audited_at}  `,
+    `Pages audited: ${audit.pages_audited}`,
+    '',
+    '## Summary',
+    '',
+    '| Check | Issues |',
+    '| --- | --- |',
+    `| Missing titles | ${summary.missing_titles} |`,
+    `| Duplicate titles | ${summary.duplicate_titles} |`,
+    `| Missing meta descriptions | ${summary.missing_descriptions} |`,
+    `| Duplicate meta descriptions | ${summary.duplicate_descriptions} |`,
+    `| Pages without exactly one H1 | ${summary.h1_problems} |`,
+    `| Off-site canonicals | ${summary.offsite_canonicals} |`,
+    `| Images missing alt text | ${summary.images_missing_alt} |`,
+    `| Thin pages (< ${THIN_PAGE_WORDS} words) | ${summary.thin_pages} |`,
+    `| Orphan pages | ${summary.orphan_pages} |`,
+    '',
+  ];
+
+  const section = (title: string, items: string[]) => {
+    lines.push(`## ${title}`, '');
+    lines.push(...(items.length > 0 ? items : ['None found.']), '');
+  };
+
+  section('Missing titles', issues.missing_titles.map((url) => `- ${url}`));
+  section('Duplicate titles', issues.duplicate_titles.map(formatDuplicate));
+  section('Missing meta descriptions', issues.missing_descriptions.map((url) => `- ${url}`));
+  section('Duplicate meta descriptions', issues.duplicate_descriptions.map(formatDuplicate));
+  section('H1 problems', issues.h1_problems.map((p) => `- ${p.url} — ${p.h1_count} H1s`));
+  section('Off-site canonicals', issues.offsite_canonicals.map((p) => `- ${p.url} → ${p.canonical}`));
+  section(
+    'Images missing alt text',
+    issues.images_missing_alt.map((p) => `- ${p.url}\n${p.images.map((src) => `  - ${src}`).join('\n')}`),
+  );
+  section('Thin pages', issues.thin_pages.map((p) => `- ${p.url} — ${p.word_count} words`));
+  section('Orphan pages', issues.orphan_pages.map((url) => `- ${url}`));
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function formatDuplicate(group: { value: string; urls: string[] }): string {
+  return `- "${group.value}"\n${group.urls.map((url) => `  - ${url}`).join('\n')}`;
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LlmStep } from './_llm.js';
+
+/**
+ * Model usage accounting.
+ * NOT a route (underscore prefix).
+ *
+ * complete() (_llm.ts) records every model call — model, tokens, latency,
+ * and the endpoint, client and user it was made for — in
+ * ai_website_llm_usage. Cost is what OpenRouter reports for the call, in
+ * USD. /api/usage-report sums the rows by client, step and month, and a
+ * client's monthly_llm_budget_usd (ai_website_clients) caps what /api/edit
+ * may spend for it in a calendar month (UTC).
+ */
+
+// ── Types ──
+
+/** Who a model call is made for — every request to complete() carries one. */
+export interface LlmCaller {
+  supabase: SupabaseClient; // user-token client the usage row is written with
+  endpoint: string; // route path, e.g. "/api/edit"
+  clientId: string | null; // null until the client exists (intake) or when a site isn't registered
+  userEmail: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null; // null when the provider didn't report a cost
+}
+
+/** Model usage for one client, month and pipeline step, summed. */
+export interface UsageSummaryRow {
+  client_id: string | null;
+  month: string; // YYYY-MM, UTC
+  step: LlmStep;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export interface ClientBudget {
+  budgetUsd: number | null; // null = no budget set
+  spentUsd: number; // this month so far
+  exceeded: boolean;
+  resetsAt: string; // start of next month (UTC), ISO
+}
+
+interface UsageRow {
+  client_id: string | null;
+  step: LlmStep;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null;
+  created_at: string;
+}
+
+// ── Limits ──
+
+const USAGE_TABLE = 'ai_website_llm_usage';
+const PAGE_SIZE = 1000; // PostgREST's default cap on rows per request
+
+// ── Recording ──
+
+/** Insert one usage row. Failures are logged, never thrown — accounting must not break the call it describes. */
+export async function recordLlmUsage(
+  caller: LlmCaller,
+  entry: { step: LlmStep; model: string; usage: LlmUsage | null; latencyMs: number },
+): Promise<void> {
+  const { error } = await caller.supabase.from(USAGE_TABLE).insert({
+    client_id: caller.clientId,
+    user_email: caller.userEmail,
+    endpoint: caller.endpoint,
+    step: entry.step,
+    model: entry.model,
+    input_tokens: entry.usage?.inputTokens ?? 0,
+    output_tokens: entry.usage?.outputTokens ?? 0,
+    cost_usd: entry.usage?.costUsd ?? null,
+    latency_ms: entry.latencyMs,
+  });
+  if (error) {
+    console.error('Failed to record model usage (non-fatal):', error.message);
+  }
+}
+
+// ── Reporting ──
+
+/** Usage summed by client, month and step for [from, to) — ordered by month, client, step. */
+export async function summarizeUsage(
+  supabase: SupabaseClient,
+  range: { from: Date; to: Date; clientId?: string },
+): Promise<UsageSummaryRow[]> {
+  const groups = new Map<string, UsageSummaryRow>();
+
+  for (const row of await listUsage(supabase, range)) {
+    const month = row.created_at.slice(0, 7);
+    const key = `${month}|${row.client_id}|${row.step}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { client_id: row.client_id, month, step: row.step, calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+      groups.set(key, group);
+    }
+    group.calls++;
+    group.input_tokens += row.input_tokens;
+    group.output_tokens += row.output_tokens;
+    group.cost_usd += Number(row.cost_usd) || 0;
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      a.month.localeCompare(b.month) ||
+      (a.client_id || '').localeCompare(b.client_id || '') ||
+      a.step.localeCompare(b.step),
+  );
+}
+
+/** This month's spend for a client against its monthly_llm_budget_usd. */
+export async function getClientBudget(
+  supabase: SupabaseClient,
+  clientId: string,
+  now: Date = new Date(),
+): Promise<ClientBudget> {
+  const from = monthStart(now);
+  const to = addMonths(from, 1);
+
+  const { data: client, error } = await supabase
+    .from('ai_website_clients')
+    .select('monthly_llm_budget_usd')
+    .eq('id', clientId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load the client's model budget: ${error.message}`);
+  }
+  const budgetUsd = client?.monthly_llm_budget_usd != null ? Number(client.monthly_llm_budget_usd) : null;
+
+  const rows = await listUsage(supabase, { from, to, clientId });
+  const spentUsd = rows.reduce((sum, row) => sum + (Number(row.cost_usd) || 0), 0);
+
+  return {
+    budgetUsd,
+    spentUsd,
+    exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+    resetsAt: to.toISOString(),
+  };
+}
+
+async function listUsage(
+  supabase: SupabaseClient,
+  range: { from: Date; to: Date; clientId?: string },
+): Promise<UsageRow[]> {
+  const rows: UsageRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from(USAGE_TABLE)
+      .select('client_id, step, input_tokens, output_tokens, cost_usd, created_at')
+      .gte('created_at', range.from.toISOString())
+      .lt('created_at', range.to.toISOString());
+    if (range.clientId) query = query.eq('client_id', range.clientId);
+
+    const { data, error } = await query.order('id', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load model usage: ${error.message}`);
+    }
+    rows.push(...((data || []) as UsageRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// ── Months (UTC) ──
+
+export function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+export function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
@@ -0,0 +1,227 @@
+import { parse, convertToTSX } from '@astrojs/compiler';
+import type { Node } from '@astrojs/compiler/types';
+import ts from 'typescript';
+
+/**
+ * Validation of model-written files before they are accepted.
+ * NOT a route (underscore prefix).
+ *
+ * .astro files are parsed with the Astro compiler — unclosed elements, then
+ * frontmatter and template expressions as TSX syntax. .ts files are
+ * type-checked in memory next to the project files they import (siteConfig.ts
+ * and its schema), so a content file that doesn't match the config's types is
+ * caught here rather than in the Vercel build. .json answers are parsed and
+ * checked against a schema. Other files pass through unchecked.
+ */
+
+// ── Types ──
+
+export interface ValidationDiagnostic {
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  checked: 'astro' | 'typescript' | 'json' | 'none';
+  diagnostics: ValidationDiagnostic[];
+  repairAttempts: number;
+}
+
+export interface ValidationContext {
+  /** Project files (path → contents) a .ts file may import, e.g. src/data/siteConfig.ts. */
+  files?: Record<string, string>;
+  /** Checks a parsed .json value, returning "path: message" errors. */
+  schema?: (value: unknown) => string[];
+}
+
+// ── Limits ──
+
+export const MAX_REPAIR_ATTEMPTS = 2; // model calls spent fixing a file before giving up
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const libFiles = new Map<string, ts.SourceFile>();
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2022.d.ts'],
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+};
+
+// ── Validation ──
+
+export async function validateFile(
+  filePath: string,
+  content: string,
+  context: ValidationContext = {},
+): Promise<ValidationResult> {
+  if (filePath.endsWith('.astro')) {
+    return withValidity('astro', await checkAstro(filePath, content));
+  }
+  if (filePath.endsWith('.ts')) {
+    return withValidity('typescript', checkTypeScript(filePath, content, context));
+  }
+  if (filePath.endsWith('.json')) {
+    return withValidity('json', checkJson(content, context));
+  }
+  return withValidity('none', []);
+}
+
+function withValidity(checked: ValidationResult['checked'], diagnostics: ValidationDiagnostic[]): ValidationResult {
+  return { valid: diagnostics.length === 0, checked, diagnostics, repairAttempts: 0 };
+}
+
+/**
+ * Validate `content` and, while it fails, hand the diagnostics to `repair`
+ * (a model call returning the whole corrected file) up to MAX_REPAIR_ATTEMPTS
+ * times. Returns the last version with its validation — callers decide
+ * whether an invalid file is an error.
+ */
+export async function validateWithRepair(
+  filePath: string,
+  content: string,
+  context: ValidationContext,
+  repair: (content: string, diagnostics: string) => Promise<string>,
+): Promise<{ content: string; validation: ValidationResult }> {
+  let validation = await validateFile(filePath, content, context);
+  let attempts = 0;
+
+  while (!validation.valid && attempts < MAX_REPAIR_ATTEMPTS) {
+    attempts++;
+    content = await repair(content, formatDiagnostics(filePath, validation.diagnostics));
+    validation = await validateFile(filePath, content, context);
+  }
+
+  return { content, validation: { ...validation, repairAttempts: attempts } };
+}
+
+/** One diagnostic per line, `path:line:column — message`, for prompts and error messages. */
+export function formatDiagnostics(filePath: string, diagnostics: ValidationDiagnostic[]): string {
+  return diagnostics
+    .map((d) => `${filePath}${d.line ? `:${d.line}${d.column ? `:${d.column}` : ''}` : ''} — ${d.message}`)
+    .join('\n');
+}
+
+/** User prompt asking the model to fix a generated file (used with GENERATE_SYSTEM_PROMPT). */
+export function repairPrompt(filePath: string, content: string, diagnostics: string): string {
+  return `This generated file fails to build.
+
+FILE (${filePath}):
+\`\`\`
+${content}
+\`\`\`
+
+ERRORS:
+${diagnostics}
+
+Fix these errors without changing anything else. Return the complete corrected file.`;
+}
+
+// ── Astro ──
+
+async function checkAstro(filePath: string, content: string): Promise<ValidationDiagnostic[]> {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  // The compiler closes unclosed elements itself; they come back without an end position
+  const { ast, diagnostics: parseDiagnostics } = await parse(content, { position: true });
+  for (const d of parseDiagnostics) {
+    if (d.severity === 1) diagnostics.push({ line: d.location?.line, column: d.location?.column, message: d.text });
+  }
+  const visit = (node: Node) => {
+    const isElement = node.type === 'element' || node.type === 'component' || node.type === 'custom-element';
+    if (isElement && !VOID_ELEMENTS.has(node.name) && node.children.length > 0 && !node.position?.end) {
+      const start = node.position?.start;
+      diagnostics.push({ line: start?.line, column: start?.column, message: `<${node.name}> is never closed` });
+    }
+    if ('children' in node) node.children.forEach(visit);
+  };
+  visit(ast);
+
+  // Frontmatter, expressions and <script> blocks as TSX syntax
+  const tsx = await convertToTSX(content, { filename: filePath });
+  for (const d of tsx.diagnostics) {
+    if (d.severity === 1) diagnostics.push({ line: d.location?.line, column: d.location?.column, message: d.text });
+  }
+  const { diagnostics: syntaxErrors = [] } = ts.transpileModule(tsx.code, {
+    fileName: `${filePath}.tsx`,
+    reportDiagnostics: true,
+    compilerOptions: { target: ts.ScriptTarget.Latest, jsx: ts.JsxEmit.Preserve },
+  });
+  for (const d of syntaxErrors) {
+    // TSX positions don't map back to the .astro source, so quote the offending code instead
+    const snippet = d.start !== undefined ? tsx.code.slice(d.start, d.start + 40).split('\n')[0].trim() : '';
+    diagnostics.push({ message: `${ts.flattenDiagnosticMessageText(d.messageText, '\n')}${snippet ? ` (at \`${snippet}\`)` : ''}` });
+  }
+
+  return diagnostics;
+}
+
+// ── TypeScript ──
+
+/**
+ * Type-check one file in an in-memory program holding just that file and
+ * context.files. Only the file's own diagnostics are reported — the others
+ * are already in the repo or were validated when they were generated.
+ */
+function checkTypeScript(filePath: string, content: string, context: ValidationContext): ValidationDiagnostic[] {
+  const files = new Map<string, string>(
+    Object.entries(context.files || {}).map(([path, source]) => [`/${path}`, source]),
+  );
+  files.set(`/${filePath}`, content);
+
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, languageVersion, onError) => {
+    const virtual = files.get(fileName);
+    if (virtual !== undefined) return ts.createSourceFile(fileName, virtual, languageVersion, true);
+    // Lib declarations are the same for every check — parse them once per instance
+    let lib = libFiles.get(fileName);
+    if (!lib) {
+      lib = getSourceFile(fileName, languageVersion, onError);
+      if (lib) libFiles.set(fileName, lib);
+    }
+    return lib;
+  };
+  const isVirtual = (path: string) => path.startsWith('/src/');
+  const fileExists = host.fileExists.bind(host);
+  host.fileExists = (fileName) => (isVirtual(fileName) ? files.has(fileName) : fileExists(fileName));
+  const readFile = host.readFile.bind(host);
+  host.readFile = (fileName) => (isVirtual(fileName) ? files.get(fileName) : readFile(fileName));
+  host.directoryExists = (dir) => isVirtual(`${dir}/`) || ts.sys.directoryExists(dir);
+  host.getCurrentDirectory = () => '/';
+
+  const program = ts.createProgram([`/${filePath}`], COMPILER_OPTIONS, host);
+  const source = program.getSourceFile(`/${filePath}`)!;
+  // Type errors in a file that doesn't parse are mostly noise from the syntax error
+  const syntactic = program.getSyntacticDiagnostics(source);
+  const diagnostics = syntactic.length > 0 ? syntactic : program.getSemanticDiagnostics(source);
+
+  return diagnostics.map((d) => {
+    const position = d.start !== undefined ? source.getLineAndCharacterOfPosition(d.start) : undefined;
+    return {
+      line: position ? position.line + 1 : undefined,
+      column: position ? position.character + 1 : undefined,
+      message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+    };
+  });
+}
+
+// ── JSON ──
+
+function checkJson(content: string, context: ValidationContext): ValidationDiagnostic[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return [{ message: `Invalid JSON: ${(error as Error).message}` }];
+  }
+  return (context.schema?.(value) || []).map((message) => ({ message }));
+}
@@ -0,0 +1,131 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { buildRedirectMap, type LegacyPage, type RedirectEntry } from './_redirects.js';
+
+/**
+ * POST /api/build-redirects
+ * Proposes old-URL → new-route 301s from the client's scraped pages and the
+ * planned filesToGenerate routes. The result is stored in
+ * generation_settings.redirect_map for review; generate-config turns it into vercel.json.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id, files_to_generate } = req.body as {
+      client_id: string;
+      files_to_generate: string[];
+    };
+
+    if (!client_id || !Array.isArray(files_to_generate) || files_to_generate.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: client_id, files_to_generate (non-empty array)',
+      });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    // Fetch client record
+    const { data: client, error: lookupError } = await supabase
+      .from('ai_website_clients')
+      .select('id, site_config')
+      .eq('id', client_id)
+      .single();
+
+    if (lookupError || !client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const siteConfig = (client.site_config || {}) as Record<string, any>;
+    const scraped = (siteConfig.scraped_data || {}) as Record<string, any>;
+    const genSettings = (siteConfig.generation_settings || {}) as Record<string, any>;
+
+    if (!scraped.pages || scraped.pages.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No scraped_data found for this client. Run the site scrape first.',
+      });
+    }
+
+    // ── Every legacy URL we know of: scraped pages, then sitemap, skipped and redirected URLs ──
+    const legacyPages: LegacyPage[] = [...scraped.pages];
+    for (const entry of scraped.sitemap_urls || []) {
+      legacyPages.push({ url: typeof entry === 'string' ? entry : entry.url });
+    }
+    for (const entry of scraped.skipped || []) {
+      legacyPages.push({ url: entry.url });
+    }
+    // URLs the legacy site already redirected still have inbound links
+    for (const hop of scraped.redirects || []) {
+      legacyPages.push({ url: hop.from });
+    }
+
+    // Hand-entered redirects (no source tag) are kept as-is
+    const existing: RedirectEntry[] = (genSettings.redirect_map || []).map((r: Partial<RedirectEntry>) => ({
+      old_path: r.old_path,
+      new_path: r.new_path,
+      confidence: r.confidence ?? 1,
+      reason: r.reason || 'Entered manually',
+      source: r.source || 'manual',
+    }));
+
+    const report = buildRedirectMap(legacyPages, files_to_generate, existing);
+
+    const { error: updateError } = await supabase
+      .from('ai_website_clients')
+      .update({
+        site_config: {
+          ...siteConfig,
+          generation_settings: {
+            ...genSettings,
+            redirect_map: report.redirect_map,
+            redirect_report: {
+              generated_at: new Date().toISOString(),
+              unmatched: report.unmatched,
+              chains: report.chains,
+              loops: report.loops,
+            },
+          },
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', client_id);
+
+    if (updateError) {
+      throw new Error(`Failed to save redirect map: ${updateError.message}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error: any) {
+    console.error('build-redirects error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Redirect map build failed',
+    });
+  }
+}
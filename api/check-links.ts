@@ -0,0 +1,70 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateAuth } from './_auth.js';
+import { setCorsHeaders } from './_generate-prompts.js';
+import { checkLinks, isBrokenLink } from './_scraper.js';
+
+/**
+ * POST /api/check-links
+ * Status-checks up to 20 URLs per call (HEAD, falling back to GET) and
+ * reports status code, redirect hops and which links are broken.
+ * Used by the per-page scrape flow for links it did not scrape;
+ * crawl jobs check their own links.
+ */
+
+const MAX_URLS_PER_CALL = 20;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { urls } = req.body as { urls: string[] };
+
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return res.status(400).json({ success: false, message: 'Missing required field: urls (non-empty array)' });
+    }
+
+    if (urls.length > MAX_URLS_PER_CALL) {
+      return res.status(400).json({
+        success: false,
+        message: `Too many URLs: ${urls.length} (max ${MAX_URLS_PER_CALL} per call)`,
+      });
+    }
+
+    const invalid = urls.filter((url) => !/^https?:\/\//i.test(url));
+    if (invalid.length > 0) {
+      return res.status(400).json({ success: false, message: `Invalid URL: ${invalid[0]}` });
+    }
+
+    const results = (await checkLinks(urls)).map((result) => ({
+      url: result.url,
+      error: result.error,
+      broken: isBrokenLink(result.http),
+      ...result.http,
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        results,
+        broken: results.filter((r) => r.broken).map((r) => r.url),
+      },
+    });
+  } catch (error: any) {
+    console.error('check-links error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Link check failed',
+    });
+  }
+}
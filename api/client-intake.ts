@@ -1,11 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
 import { validateAuth } from './_auth.js';
+import { completeJson } from './_llm.js';
 
 /**
  * POST /api/client-intake
  * Creative brief conversation for new client sites.
  * Called from the BWCC NewClientChat dialog.
- * Claude acts as a creative director gathering design & content requirements.
+ * The model acts as a creative director gathering design & content requirements.
+ * Usage is accounted to clientId once the client record exists.
  */
 
 // ── CORS helpers ──
@@ -103,6 +106,13 @@ interface RequestBody {
   message: string;
   conversationHistory: ConversationMessage[];
   referenceImages?: string[]; // base64 data URLs for vision
+  clientId?: string | null; // ai_website_clients id, when the client has been created
+}
+
+interface IntakeReply {
+  action: 'continue' | 'brief_complete';
+  reply: string;
+  creativeBrief?: Record<string, unknown>;
 }
 
 // ── Request handler ──
@@ -125,7 +135,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   try {
     const body = req.body as RequestBody;
-    const { message, conversationHistory = [], referenceImages } = body;
+    const { message, conversationHistory = [], referenceImages, clientId = null } = body;
 
     if (!message) {
       return res.status(400).json({
@@ -134,59 +144,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const apiKey = getEnv('OPENROUTER_API_KEY');
-
-    // Build messages array
-    const messages: any[] = [
-      { role: 'system', content: SYSTEM_PROMPT },
-    ];
-
-    for (const msg of conversationHistory) {
-      messages.push({ role: msg.role, content: msg.content });
-    }
-
-    // Build user message with optional image content blocks
-    if (referenceImages && referenceImages.length > 0) {
-      const contentBlocks: any[] = [];
-      for (const img of referenceImages) {
-        contentBlocks.push({ type: 'image_url', image_url: { url: img } });
-      }
-      contentBlocks.push({ type: 'text', text: message });
-      messages.push({ role: 'user', content: contentBlocks });
-    } else {
-      messages.push({ role: 'user', content: message });
-    }
-
-    // Call OpenRouter
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': 'https://bochi-web.com',
-        'X-Title': 'Bochi Web Creative Brief',
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-sonnet-4',
-        max_tokens: 4096,
-        messages,
-      }),
+    // Supabase client with user token for RLS — usage rows are written with it
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'), {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} — ${errorText}`);
-    }
-
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content;
-
-    if (!text) {
-      throw new Error('Empty response from OpenRouter API');
-    }
-
-    // Parse Claude's JSON response
-    const parsed = JSON.parse(text);
+    const parsed = await completeJson<IntakeReply>({
+      step: 'intake',
+      system: SYSTEM_PROMPT,
+      messages: [
+        ...conversationHistory,
+        { role: 'user', content: message, images: referenceImages },
+      ],
+      caller: { supabase, endpoint: '/api/client-intake', clientId, userEmail: user.email },
+    });
 
     return res.status(200).json({
       success: true,
@@ -0,0 +1,292 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { createHash, createHmac } from 'crypto';
+import { getEnv } from './_generate-prompts.js';
+import type { FormField, FormSchema } from '../src/data/siteConfigSchema.js';
+
+/**
+ * POST /api/contact
+ * Public endpoint the client site's lead forms submit to (no auth).
+ * Validates the submission against the site's form schema (/form-schema.json,
+ * built from siteConfig.forms), filters spam with a honeypot, a minimum fill
+ * time and a per-IP rate limit, stores the lead in ai_website_leads and
+ * forwards it to LEAD_WEBHOOK_URL for email/CRM delivery when that is set.
+ * The form's script posts JSON and gets JSON back; a plain form post (no
+ * JavaScript) is redirected back to the page instead.
+ *
+ * Leads belong to the client whose github_repo matches GITHUB_REPO. They are
+ * stored through the submit_website_lead() Postgres function (security
+ * definer, the only thing anon may execute here): it maps p_github_repo to
+ * the client, counts the leads with the same p_ip_hash in the last
+ * p_window_seconds and inserts the lead only while that count is under
+ * p_max_per_window, returning 'stored' or 'rate_limited'. The anon key never
+ * reads ai_website_clients or ai_website_leads itself, and the limit holds
+ * across every function instance. The webhook is only called for a stored
+ * lead, so it is never reached without that check.
+ */
+
+// ── Spam protection ──
+
+const HONEYPOT_FIELD = '_website'; // hidden from people, filled in by bots
+const STARTED_FIELD = '_started'; // set by the form script when the page loads; absent without JavaScript
+const MIN_SUBMIT_MS = 3000;
+const RATE_LIMIT = 5; // stored submissions per IP per window
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+
+function clientIp(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || (req.headers['x-real-ip'] as string | undefined) || req.socket?.remoteAddress || 'unknown';
+}
+
+// ── Form schema ──
+
+const SCHEMA_TTL_MS = 5 * 60 * 1000;
+let schemaCache: { origin: string; forms: FormSchema[]; fetchedAt: number } | null = null;
+
+/** The deployed site's own /form-schema.json, cached per instance. */
+async function loadForms(origin: string): Promise<FormSchema[]> {
+  if (schemaCache && schemaCache.origin === origin && Date.now() - schemaCache.fetchedAt < SCHEMA_TTL_MS) {
+    return schemaCache.forms;
+  }
+  const response = await fetch(`${origin}/form-schema.json`, { signal: AbortSignal.timeout(5000) });
+  if (!response.ok) throw new Error(`Form schema fetch failed: ${response.status}`);
+  const { forms } = (await response.json()) as { forms: FormSchema[] };
+  schemaCache = { origin, forms, fetchedAt: Date.now() };
+  return forms;
+}
+
+// ── Validation ──
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_TEXTAREA_LENGTH = 5000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type LeadValues = Record<string, string | string[]>;
+
+/** Known fields only, checked against their type, options and required flag. */
+function validateSubmission(
+  form: FormSchema,
+  body: Record<string, unknown>,
+): { values: LeadValues; errors: Record<string, string> } {
+  const values: LeadValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const field of form.fields) {
+    const raw = body[field.name];
+    const list = (Array.isArray(raw) ? raw : [raw])
+      .filter((v) => typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean')
+      .map((v) => String(v).trim())
+      .filter(Boolean);
+
+    if (list.length === 0) {
+      if (field.required) errors[field.name] = `${field.label} is required`;
+      continue;
+    }
+
+    const isMulti = field.type === 'checkbox' && (field.options?.length || 0) > 0;
+    if (list.length > 1 && !isMulti) {
+      errors[field.name] = `${field.label} has more than one value`;
+      continue;
+    }
+
+    const problem = list.map((value) => checkValue(field, value)).find(Boolean);
+    if (problem) {
+      errors[field.name] = problem;
+      continue;
+    }
+    values[field.name] = isMulti ? list : list[0];
+  }
+
+  return { values, errors };
+}
+
+function checkValue(field: FormField, value: string): string | null {
+  const maxLength = field.type === 'textarea' ? MAX_TEXTAREA_LENGTH : MAX_TEXT_LENGTH;
+  if (value.length > maxLength) return `${field.label} must be under ${maxLength} characters`;
+
+  switch (field.type) {
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Please enter a valid email address';
+    case 'tel': {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 7 && digits <= 15 ? null : 'Please enter a valid phone number';
+    }
+    case 'number':
+      return isNaN(Number(value)) ? `${field.label} must be a number` : null;
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : 'Please choose a valid date';
+    case 'time':
+      return /^\d{2}:\d{2}$/.test(value) ? null : 'Please choose a valid time';
+    case 'select':
+    case 'radio':
+    case 'checkbox':
+      // A lone checkbox has no options; any value means "checked"
+      return !field.options?.length || field.options.includes(value) ? null : 'Please choose one of the listed options';
+    default:
+      return null;
+  }
+}
+
+// ── Storage ──
+
+interface Lead {
+  githubRepo: string;
+  ipHash: string;
+  formId: string;
+  formKind: FormSchema['kind'];
+  fields: LeadValues;
+  pageUrl: string | null;
+  userAgent: string | null;
+}
+
+/** Insert the lead via submit_website_lead(), unless this IP is over the rate limit. */
+async function storeLead(lead: Lead): Promise<'stored' | 'rate_limited'> {
+  const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.rpc('submit_website_lead', {
+    p_github_repo: lead.githubRepo,
+    p_ip_hash: lead.ipHash,
+    p_window_seconds: RATE_WINDOW_MS / 1000,
+    p_max_per_window: RATE_LIMIT,
+    p_form_id: lead.formId,
+    p_form_kind: lead.formKind,
+    p_fields: lead.fields,
+    p_page_url: lead.pageUrl,
+    p_user_agent: lead.userAgent,
+  });
+  if (error) throw new Error(`submit_website_lead failed: ${error.message}`);
+  if (data !== 'stored' && data !== 'rate_limited') throw new Error(`submit_website_lead returned ${data}`);
+  return data;
+}
+
+// ── Delivery ──
+
+/** POST the lead to LEAD_WEBHOOK_URL, signed with LEAD_WEBHOOK_SECRET when set. */
+async function sendWebhook(url: string, payload: Record<string, unknown>): Promise<void> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const secret = process.env.LEAD_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Lead-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(8000) });
+  if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+}
+
+// ── Responses ──
+
+type ContactResult = { success: boolean; message?: string; errors?: Record<string, string> };
+
+/**
+ * JSON for the form script. A plain form post is sent back to the page it came
+ * from, at the form's #{id}-sent or #{id}-failed notice (ContactForm.astro).
+ */
+function respond(req: VercelRequest, res: VercelResponse, status: number, result: ContactResult) {
+  if (String(req.headers['content-type'] || '').includes('application/json')) {
+    return res.status(status).json(result);
+  }
+  const formId = String(req.body?.form_id || '').replace(/[^\w-]/g, '');
+  return res.redirect(303, `${refererPath(req)}#${formId}-${result.success ? 'sent' : 'failed'}`);
+}
+
+/** Path of the page that posted the form, when it is on this site. */
+function refererPath(req: VercelRequest): string {
+  try {
+    const referer = new URL(String(req.headers.referer));
+    const host = req.headers['x-forwarded-host'] || req.headers.host;
+    return referer.host === host ? `${referer.pathname}${referer.search}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+// ── Handler ──
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  try {
+    const body = req.body && typeof req.body === 'object' ? (req.body as Record<string, unknown>) : null;
+    if (!body) {
+      return respond(req, res, 400, { success: false, message: 'Invalid submission' });
+    }
+
+    // Bots get a success response so they don't learn to adapt. Without
+    // JavaScript there is no start time, so only the honeypot applies.
+    const now = Date.now();
+    const started = body[STARTED_FIELD] ? Number(body[STARTED_FIELD]) : null;
+    const tooFast = started !== null && !(now - started >= MIN_SUBMIT_MS);
+    if (body[HONEYPOT_FIELD] || tooFast) {
+      return respond(req, res, 200, { success: true });
+    }
+
+    const host = req.headers['x-forwarded-host'] || req.headers.host;
+    const proto = req.headers['x-forwarded-proto'] || 'https';
+    const forms = await loadForms(`${proto}://${host}`);
+    const form = forms.find((f) => f.id === body.form_id);
+    if (!form) {
+      return respond(req, res, 400, { success: false, message: 'Unknown form' });
+    }
+
+    const { values, errors } = validateSubmission(form, body);
+    if (Object.keys(errors).length > 0) {
+      return respond(req, res, 400, { success: false, message: 'Please check the highlighted fields', errors });
+    }
+
+    const githubRepo = getEnv('GITHUB_REPO');
+    const pageUrl = typeof req.headers.referer === 'string' ? req.headers.referer : null;
+    const submittedAt = new Date(now).toISOString();
+
+    // ── Store the lead ──
+    // The rate limit lives in submit_website_lead(); if it can't run, nothing is forwarded either
+    const status = await storeLead({
+      githubRepo,
+      ipHash: createHash('sha256').update(`${githubRepo}:${clientIp(req)}`).digest('hex').slice(0, 32),
+      formId: form.id,
+      formKind: form.kind,
+      fields: values,
+      pageUrl,
+      userAgent: req.headers['user-agent'] || null,
+    });
+    if (status === 'rate_limited') {
+      return respond(req, res, 429, { success: false, message: 'Too many submissions. Please try again later.' });
+    }
+
+    // ── Forward to email/CRM ──
+    // The lead is already stored, so a webhook failure is only logged
+    const webhookUrl = process.env.LEAD_WEBHOOK_URL;
+    if (webhookUrl) {
+      try {
+        await sendWebhook(webhookUrl, {
+          event: 'lead.created',
+          site: githubRepo,
+          form_id: form.id,
+          form_kind: form.kind,
+          fields: values,
+          page_url: pageUrl,
+          submitted_at: submittedAt,
+        });
+      } catch (error: any) {
+        console.error('contact webhook error:', error);
+      }
+    }
+
+    return respond(req, res, 200, { success: true });
+  } catch (error: any) {
+    console.error('contact error:', error);
+    return respond(req, res, 500, {
+      success: false,
+      message: 'Your message could not be sent. Please call or email us instead.',
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { getCrawlJob, updateCrawlJob, summarizeCrawlJob } from './_crawl.js';
+
+/**
+ * POST /api/crawl-pause
+ * Pauses a running crawl job. A batch already in flight finishes normally;
+ * no further batches run until /api/crawl-resume is called.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { job_id } = req.body as { job_id: string };
+    if (!job_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: job_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    const job = await getCrawlJob(supabase, job_id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Crawl job not found' });
+    }
+
+    if (job.status !== 'running') {
+      return res.status(400).json({
+        success: false,
+        message: `Crawl job is "${job.status}", expected "running"`,
+      });
+    }
+
+    const paused = await updateCrawlJob(supabase, job.id, { status: 'paused' });
+
+    return res.status(200).json({
+      success: true,
+      data: summarizeCrawlJob(paused),
+    });
+  } catch (error: any) {
+    console.error('crawl-pause error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Crawl pause failed',
+    });
+  }
+}
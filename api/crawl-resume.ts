@@ -0,0 +1,68 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { getCrawlJob, updateCrawlJob, processCrawlBatch, summarizeCrawlJob } from './_crawl.js';
+
+/**
+ * POST /api/crawl-resume
+ * Runs the next batch of a crawl job, un-pausing it first if needed.
+ * Called repeatedly by the Command Center until the job is completed;
+ * when the site sets a crawl-delay, wait that many seconds between calls.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { job_id } = req.body as { job_id: string };
+    if (!job_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: job_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    let job = await getCrawlJob(supabase, job_id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Crawl job not found' });
+    }
+
+    if (job.status === 'paused') {
+      job = await updateCrawlJob(supabase, job.id, { status: 'running' });
+    }
+
+    job = await processCrawlBatch(supabase, job);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...summarizeCrawlJob(job),
+        scraped_data: job.status === 'completed' ? job.scraped_data : null,
+      },
+    });
+  } catch (error: any) {
+    console.error('crawl-resume error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Crawl batch failed',
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { slugify } from './_scraper.js';
+import {
+  createCrawlJob,
+  summarizeCrawlJob,
+  DEFAULT_MAX_DEPTH,
+  DEFAULT_MAX_PAGES,
+  MAX_PAGES_LIMIT,
+} from './_crawl.js';
+
+/**
+ * POST /api/crawl-start
+ * Starts a server-side crawl of a client's existing website.
+ * Reads robots.txt and sitemaps, seeds the frontier, and returns the job.
+ * The Command Center then calls /api/crawl-resume until the job completes.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id, max_depth, max_pages } = req.body as {
+      client_id: string;
+      max_depth?: number;
+      max_pages?: number;
+    };
+    if (!client_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: client_id' });
+    }
+
+    const maxDepth = Number.isInteger(max_depth) && max_depth! >= 0 ? max_depth! : DEFAULT_MAX_DEPTH;
+    const maxPages = Number.isInteger(max_pages) && max_pages! > 0
+      ? Math.min(max_pages!, MAX_PAGES_LIMIT)
+      : DEFAULT_MAX_PAGES;
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    // Look up client
+    const { data: client, error: lookupError } = await supabase
+      .from('ai_website_clients')
+      .select('id, client_name, site_config')
+      .eq('id', client_id)
+      .single();
+
+    if (lookupError || !client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const siteConfig = (client.site_config || {}) as Record<string, unknown>;
+    const currentUrl = siteConfig.current_website_url as string | undefined;
+
+    if (!currentUrl) {
+      return res.status(400).json({
+        success: false,
+        message: 'No current_website_url found in site_config. Add one in the client details first.',
+      });
+    }
+
+    let startUrl: string;
+    try {
+      startUrl = new URL(currentUrl.startsWith('http') ? currentUrl : `https://${currentUrl}`).href;
+    } catch {
+      return res.status(400).json({ success: false, message: `Invalid URL: ${currentUrl}` });
+    }
+
+    const job = await createCrawlJob(supabase, {
+      clientId: client.id,
+      clientSlug: slugify(client.client_name),
+      startUrl,
+      maxDepth,
+      maxPages,
+      createdBy: user.email,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: summarizeCrawlJob(job),
+    });
+  } catch (error: any) {
+    console.error('crawl-start error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Crawl start failed',
+    });
+  }
+}
@@ -1,11 +1,18 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { validateAuth } from './_auth.js';
+import { completeJson } from './_llm.js';
+import { getClientBudget, type LlmCaller } from './_usage.js';
+import { validateWithRepair, type ValidationContext, type ValidationResult } from './_validate.js';
 
 /**
  * POST /api/edit
  * Receives a section edit request, fetches the component source from GitHub,
- * sends it to Claude API with the user's instructions, and returns the
- * modified code with an explanation.
+ * sends it to the model (_llm.ts) with the user's instructions, and returns the
+ * modified code with an explanation. The code is validated first; errors go
+ * back to the model in the same conversation for a bounded number of repairs.
+ * Edits are refused with 402 once the site's client has spent its monthly
+ * model budget (_usage.ts).
  */
 
 // ── Section-to-file mapping (duplicated from src/data/sectionMap.ts to avoid
@@ -24,27 +31,33 @@ const componentSections: Record<string, string> = {
   'footer': 'src/components/sections/Footer.astro',
 };
 
-const pageSections = new Set([
+const serviceSections = new Set([
   'service-hero',
   'service-overview',
   'service-features',
   'service-process',
   'service-faq',
   'service-cta',
+]);
+
+const SERVICE_PAGE_TEMPLATE = 'src/pages/services/[slug].astro';
+
+const pageSections = new Set([
   'contact',
 ]);
 
 const pageFileMap: Record<string, string> = {
-  '/services/service-one/': 'src/pages/services/service-one.astro',
-  '/services/service-two/': 'src/pages/services/service-two.astro',
-  '/services/service-three/': 'src/pages/services/service-three.astro',
   '/contact/': 'src/pages/contact.astro',
 };
 
 function resolveFilePath(section: string, currentPage: string): string | null {
   if (componentSections[section]) return componentSections[section];
+  const normalized = currentPage.endsWith('/') ? currentPage : currentPage + '/';
+  if (serviceSections.has(section)) {
+    const slug = normalized.match(/^\/services\/([a-z0-9-]+)\/$/)?.[1];
+    return slug ? `src/data/services/${slug}.ts` : null;
+  }
   if (pageSections.has(section)) {
-    const normalized = currentPage.endsWith('/') ? currentPage : currentPage + '/';
     return pageFileMap[normalized] || null;
   }
   return null;
@@ -82,7 +95,7 @@ async function fetchFileFromGitHub(filePath: string): Promise<string> {
   return response.text();
 }
 
-// ── Claude API call ──
+// ── Model call ──
 
 const SYSTEM_PROMPT = `You are an expert Astro and Tailwind CSS developer working as a website editor. You will receive the source code of an Astro component and a user's request to modify it.
 
@@ -121,67 +134,75 @@ interface RequestBody {
   conversationHistory: ConversationMessage[];
 }
 
-async function callClaude(
+async function callModel(
   userMessage: string,
   conversationHistory: ConversationMessage[],
+  caller: LlmCaller,
   referenceImage?: string | null
 ): Promise<{ explanation: string; code: string }> {
-  const apiKey = getEnv('OPENROUTER_API_KEY');
-
-  // Build messages array: system message first, then conversation history
-  const messages: any[] = [
-    { role: 'system', content: SYSTEM_PROMPT },
-  ];
+  const reply = await completeJson<{ explanation?: string; code?: string }>({
+    step: 'edit',
+    system: SYSTEM_PROMPT,
+    messages: [
+      ...conversationHistory,
+      { role: 'user', content: userMessage, images: referenceImage ? [referenceImage] : undefined },
+    ],
+    caller,
+  });
 
-  for (const msg of conversationHistory) {
-    messages.push({ role: msg.role, content: msg.content });
+  if (typeof reply.code !== 'string') {
+    throw new Error('Model response is missing the modified code');
   }
+  return { explanation: reply.explanation || '', code: reply.code };
+}
 
-  // Build the current user message content blocks (OpenAI vision format)
-  const contentBlocks: any[] = [];
+// ── Validation ──
 
-  // If there's a reference image, add it as an image_url block
-  if (referenceImage) {
-    contentBlocks.push({
-      type: 'image_url',
-      image_url: { url: referenceImage },
-    });
-  }
+const SITE_CONFIG_FILES = ['src/data/siteConfig.ts', 'src/data/siteConfigSchema.ts'];
 
-  contentBlocks.push({ type: 'text', text: userMessage });
-
-  messages.push({ role: 'user', content: contentBlocks });
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-      'HTTP-Referer': 'https://bochi-web.com',
-      'X-Title': 'Bochi Web Editor',
-    },
-    body: JSON.stringify({
-      model: 'anthropic/claude-sonnet-4',
-      max_tokens: 4096,
-      messages,
-    }),
+/**
+ * Validate the model's code for `filePath`. While it fails, the errors are sent
+ * back as the next turn of the conversation that produced it.
+ */
+async function validateEdit(
+  filePath: string,
+  result: { explanation: string; code: string },
+  userPrompt: string,
+  conversationHistory: ConversationMessage[],
+  context: ValidationContext,
+  caller: LlmCaller,
+): Promise<{ code: string; validation: ValidationResult }> {
+  const history: ConversationMessage[] = [...conversationHistory, { role: 'user', content: userPrompt }];
+
+  const { content, validation } = await validateWithRepair(filePath, result.code, context, async (code, diagnostics) => {
+    history.push({ role: 'assistant', content: JSON.stringify({ explanation: result.explanation, code }) });
+    const repairMessage = `That file fails to build:\n\n${diagnostics}\n\nFix these errors without changing anything else. Respond in the same JSON format with the complete corrected file.`;
+    const repaired = await callModel(repairMessage, history, caller);
+    history.push({ role: 'user', content: repairMessage });
+    return repaired.code;
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} — ${errorText}`);
-  }
+  return { code: content, validation };
+}
 
-  const data = await response.json();
-  const text = data.choices?.[0]?.message?.content;
+// ── Usage budget ──
 
-  if (!text) {
-    throw new Error('Empty response from OpenRouter API');
+/**
+ * The ai_website_clients id of the site this editor is deployed for, or null
+ * if it isn't registered. A failed lookup throws — treating it as
+ * "unregistered" would skip the budget check.
+ */
+async function findSiteClientId(supabase: SupabaseClient): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('ai_website_clients')
+    .select('id')
+    .eq('github_owner', getEnv('GITHUB_OWNER'))
+    .eq('github_repo', getEnv('GITHUB_REPO'))
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to look up this site's client: ${error.message}`);
   }
-
-  // Parse the JSON response
-  const parsed = JSON.parse(text);
-  return { explanation: parsed.explanation, code: parsed.code };
+  return data?.id || null;
 }
 
 // ── Request handler ──
@@ -216,6 +237,32 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // Supabase client with user token for RLS
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(getEnv('SUPABASE_URL'), getEnv('SUPABASE_ANON_KEY'), {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+    const clientId = await findSiteClientId(supabase);
+    const caller: LlmCaller = { supabase, endpoint: '/api/edit', clientId, userEmail: user.email };
+
+    // ── Stop once the client's monthly model budget is spent ──
+    if (clientId) {
+      const budget = await getClientBudget(supabase, clientId);
+      if (budget.exceeded) {
+        const resetsOn = new Date(budget.resetsAt).toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          timeZone: 'UTC',
+        });
+        return res.status(402).json({
+          success: false,
+          message: `This site has used its AI editing allowance for the month, so edits are paused until ${resetsOn}. Your Bochi Web team can raise the allowance if you need more changes before then.`,
+          budget,
+        });
+      }
+    }
+
     // ── New Page action — no file to fetch ──
     if (action === 'new-page') {
       let userPrompt = `The user wants to create a new page for an Astro website using Tailwind CSS.\n\nThe user wants: ${message}`;
@@ -227,19 +274,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
       userPrompt += `\n\nGenerate a complete Astro page file. Use the same patterns as other pages in the project: import BaseLayout, use SectionWrapper for sections, include data-section attributes on each section, use Tailwind CSS utilities with the project's CSS custom properties (var(--color-primary), etc.).`;
 
-      const result = await callClaude(userPrompt, conversationHistory, referenceImage);
+      const result = await callModel(userPrompt, conversationHistory, caller, referenceImage);
+      const { code, validation } = await validateEdit(
+        'src/pages/new-page.astro',
+        result,
+        userPrompt,
+        conversationHistory,
+        {},
+        caller,
+      );
+
+      if (!validation.valid) {
+        return res.status(422).json({
+          success: false,
+          message: `The new page failed validation after ${validation.repairAttempts} repair attempts`,
+          validation,
+        });
+      }
 
       return res.status(200).json({
         success: true,
         message: result.explanation,
-        modifiedCode: result.code,
+        modifiedCode: code,
         originalCode: null,
         filePath: null,
+        validation,
       });
     }
 
     // ── Resolve the file path ──
-    const filePath = resolveFilePath(section, currentPage);
+    let filePath = resolveFilePath(section, currentPage);
     if (!filePath) {
       return res.status(400).json({
         success: false,
@@ -247,13 +311,29 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
+    // Rebuilding a service section is a layout change, made once in the
+    // shared template; every other edit changes this service's content only
+    const isServiceTemplate = serviceSections.has(section) && action === 'replace';
+    if (isServiceTemplate) filePath = SERVICE_PAGE_TEMPLATE;
+    const isServiceData = serviceSections.has(section) && !isServiceTemplate;
+
     // ── Fetch the source code from GitHub ──
     const originalCode = await fetchFileFromGitHub(filePath);
 
-    // ── Build the user message for Claude ──
+    // ── Build the user message for the model ──
     let userPrompt: string;
 
-    if (action === 'replace') {
+    if (isServiceData) {
+      const template = await fetchFileFromGitHub(SERVICE_PAGE_TEMPLATE);
+      userPrompt = `The "${section}" section of this service page is rendered by a shared template from the service's content file. Edit the CONTENT FILE only.\n\nTemplate (for reference — do not return it):\n\n\`\`\`astro\n${template}\n\`\`\`\n\nContent file (${filePath}):\n\n\`\`\`typescript\n${originalCode}\n\`\`\`\n\nThe user wants: ${message}`;
+      if (referenceUrl) {
+        userPrompt += `\n\nReference website for inspiration: ${referenceUrl}`;
+      }
+      if (referenceImage) {
+        userPrompt += `\n\nA reference image has been provided — use it as design guidance.`;
+      }
+      userPrompt += `\n\nChange the values this section reads from the content file. Keep the ServiceDetails type, the import and the default export exactly as they are. Return the complete modified content file (TypeScript, not Astro).`;
+    } else if (action === 'replace') {
       userPrompt = `Here is the current component code for the "${section}" section:\n\n\`\`\`astro\n${originalCode}\n\`\`\`\n\nThe user wants: ${message}`;
       if (referenceUrl) {
         userPrompt += `\n\nReference website for inspiration: ${referenceUrl}`;
@@ -273,19 +353,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       userPrompt += `\n\nModify the component to match the user's request. Return the complete modified file.`;
     }
 
+    if (isServiceTemplate) {
+      userPrompt += `\n\nIMPORTANT: This is the shared template for EVERY service page. Keep reading content from the details prop (src/data/services/{slug}.ts) — do not hard-code one service's text.`;
+    }
+
     if (isGlobal) {
       userPrompt += `\n\nIMPORTANT: This is a GLOBAL component (navigation or footer) that appears on every page. Changes here will affect all pages site-wide. Ensure data-global="true" is preserved.`;
     }
 
-    // ── Call Claude ──
-    const result = await callClaude(userPrompt, conversationHistory, referenceImage);
+    // ── Call the model ──
+    const result = await callModel(userPrompt, conversationHistory, caller, referenceImage);
+
+    // Content files are type-checked against the site's real siteConfig and its schema
+    const context: ValidationContext = {};
+    if (filePath.endsWith('.ts')) {
+      const sources = await Promise.all(SITE_CONFIG_FILES.map(async (path) => [path, await fetchFileFromGitHub(path)]));
+      context.files = Object.fromEntries(sources);
+    }
+    const { code, validation } = await validateEdit(filePath, result, userPrompt, conversationHistory, context, caller);
+
+    if (!validation.valid) {
+      return res.status(422).json({
+        success: false,
+        message: `The edited ${filePath} failed validation after ${validation.repairAttempts} repair attempts`,
+        validation,
+      });
+    }
 
     return res.status(200).json({
       success: true,
       message: result.explanation,
-      modifiedCode: result.code,
+      modifiedCode: code,
       originalCode,
       filePath,
+      validation,
     });
   } catch (error: any) {
     console.error('Edit API error:', error);
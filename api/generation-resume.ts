@@ -0,0 +1,66 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { getGenerationJob, processGenerationStep, summarizeGenerationJob } from './_generation.js';
+
+/**
+ * POST /api/generation-resume
+ * Runs the next chunk of a generation job — the config step, a batch of
+ * page files, or the commit. Called repeatedly by the Command Center while
+ * the job is running; a failed job must go through /api/generation-retry first.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { job_id } = req.body as { job_id: string };
+    if (!job_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: job_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    let job = await getGenerationJob(supabase, job_id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Generation job not found' });
+    }
+
+    job = await processGenerationStep(supabase, job, {
+      supabase,
+      endpoint: '/api/generation-resume',
+      clientId: job.client_id,
+      userEmail: user.email,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: summarizeGenerationJob(job),
+    });
+  } catch (error: any) {
+    console.error('generation-resume error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Generation step failed',
+    });
+  }
+}
@@ -0,0 +1,74 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { getGenerationJob, retryGenerationJob, summarizeGenerationJob } from './_generation.js';
+
+/**
+ * POST /api/generation-retry
+ * Puts a failed generation job back to running. Failed files — all of
+ * them, or only those listed in `paths` — are queued again; a failed
+ * config or commit step runs again. Continue with /api/generation-resume.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { job_id, paths } = req.body as { job_id: string; paths?: string[] };
+    if (!job_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: job_id' });
+    }
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some((p) => typeof p !== 'string'))) {
+      return res.status(400).json({ success: false, message: 'paths must be an array of file paths' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    const job = await getGenerationJob(supabase, job_id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Generation job not found' });
+    }
+
+    if (job.status !== 'failed') {
+      return res.status(409).json({
+        success: false,
+        message: `Only failed jobs can be retried (job is ${job.status})`,
+      });
+    }
+
+    const { job: retried, requeued } = await retryGenerationJob(supabase, job, paths);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...summarizeGenerationJob(retried),
+        requeued,
+      },
+    });
+  } catch (error: any) {
+    console.error('generation-retry error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Generation retry failed',
+    });
+  }
+}
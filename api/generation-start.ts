@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders, type GenerationClient } from './_generate-prompts.js';
+import { createGenerationJob, findRunningGenerationJob, summarizeGenerationJob } from './_generation.js';
+
+/**
+ * POST /api/generation-start
+ * Starts a server-side generation run for a client: config, every page
+ * file, then one commit to the client's repo. Returns the job; the
+ * Command Center then calls /api/generation-resume until it completes or fails.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id } = req.body as { client_id: string };
+    if (!client_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: client_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    // Look up client
+    const { data: client, error: lookupError } = await supabase
+      .from('ai_website_clients')
+      .select('id, client_name, github_owner, github_repo, site_config')
+      .eq('id', client_id)
+      .single();
+
+    if (lookupError || !client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    if (!client.github_owner || !client.github_repo) {
+      return res.status(400).json({
+        success: false,
+        message: 'Client is missing github_owner or github_repo in site_config',
+      });
+    }
+
+    const running = await findRunningGenerationJob(supabase, client.id);
+    if (running) {
+      return res.status(409).json({
+        success: false,
+        message: `A generation job is already running for this client (${running.id})`,
+      });
+    }
+
+    const job = await createGenerationJob(supabase, {
+      client: client as GenerationClient,
+      createdBy: user.email,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: summarizeGenerationJob(job),
+    });
+  } catch (error: any) {
+    console.error('generation-start error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Generation start failed',
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { getGenerationJob, listGenerationFiles, summarizeGenerationJob } from './_generation.js';
+
+/**
+ * POST /api/generation-status
+ * Returns a generation job's progress and each file's status and error.
+ * With include_outputs, also the inputs it started from, the generated
+ * config and every file's content — for inspecting a run after the fact.
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { job_id, include_outputs } = req.body as { job_id: string; include_outputs?: boolean };
+    if (!job_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: job_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    const job = await getGenerationJob(supabase, job_id);
+    if (!job) {
+      return res.status(404).json({ success: false, message: 'Generation job not found' });
+    }
+
+    const files = await listGenerationFiles(supabase, job.id, !!include_outputs);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...summarizeGenerationJob(job),
+        files,
+        ...(include_outputs ? { inputs: job.inputs, config: job.config } : {}),
+      },
+    });
+  } catch (error: any) {
+    console.error('generation-status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Generation status failed',
+    });
+  }
+}
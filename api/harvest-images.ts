@@ -0,0 +1,127 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { harvestImages, type HarvestedImage } from './_images.js';
+
+/**
+ * POST /api/harvest-images
+ * Downloads the images referenced in a client's scraped_data into
+ * public/images/ FileEntry items (base64) for /api/generate-commit.
+ * Processes one batch per call and records the manifest in
+ * site_config.harvested_images; call until `remaining` is 0.
+ */
+
+const IMAGES_PER_CALL = 8;
+const RESPONSE_BUDGET = 3 * 1024 * 1024; // base64 chars — stays under Vercel's 4.5 MB response cap
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id } = req.body as { client_id: string };
+    if (!client_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: client_id' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    // Fetch client record
+    const { data: client, error: lookupError } = await supabase
+      .from('ai_website_clients')
+      .select('id, site_config')
+      .eq('id', client_id)
+      .single();
+
+    if (lookupError || !client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const siteConfig = (client.site_config || {}) as Record<string, any>;
+    const scraped = (siteConfig.scraped_data || {}) as Record<string, any>;
+    const manifest = (siteConfig.harvested_images || { images: [], skipped: [] }) as {
+      images: HarvestedImage[];
+      skipped: { src: string; reason: string }[];
+    };
+
+    // ── Collect unprocessed images across all scraped pages ──
+    const processed = new Set([
+      ...manifest.images.flatMap((img) => img.sources),
+      ...manifest.skipped.map((s) => s.src),
+    ]);
+    const pending = new Map<string, { src: string; alt: string; filename: string }>();
+    for (const page of scraped.pages || []) {
+      for (const img of page.images || []) {
+        if (!processed.has(img.src) && !pending.has(img.src)) pending.set(img.src, img);
+      }
+    }
+
+    const batch = [...pending.values()].slice(0, IMAGES_PER_CALL);
+    const result = await harvestImages(batch, manifest.images);
+
+    // ── Keep the response under the size cap; overflow is retried next call ──
+    const files = [];
+    const deferred = new Set<string>();
+    let responseSize = 0;
+    for (const file of result.files) {
+      if (files.length > 0 && responseSize + file.content.length > RESPONSE_BUDGET) {
+        deferred.add(file.path);
+        continue;
+      }
+      responseSize += file.content.length;
+      files.push(file);
+    }
+    const images = result.images.filter((img) => !deferred.has(img.path));
+
+    const updatedManifest = {
+      images,
+      skipped: [...manifest.skipped, ...result.skipped],
+    };
+
+    const { error: updateError } = await supabase
+      .from('ai_website_clients')
+      .update({
+        site_config: { ...siteConfig, harvested_images: updatedManifest },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', client_id);
+
+    if (updateError) {
+      throw new Error(`Failed to save image manifest: ${updateError.message}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        files,
+        images,
+        skipped: result.skipped,
+        remaining: pending.size - batch.length + deferred.size,
+      },
+    });
+  } catch (error: any) {
+    console.error('harvest-images error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Image harvest failed',
+    });
+  }
+}
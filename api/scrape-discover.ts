@@ -10,13 +10,18 @@ import {
   extractInternalLinks,
   parseRobotsTxt,
   isBlockedByRobots,
-  parseSitemapXml,
+  fetchRobotsTxt,
+  parseRobotsSitemaps,
+  discoverSitemapUrls,
 } from './_scraper.js';
 
 /**
  * POST /api/scrape-discover
  * Discovers all pages on a client's existing website.
- * Fetches homepage, robots.txt, sitemap.xml, and returns the page list.
+ * Fetches homepage, robots.txt and every sitemap it can find (robots.txt
+ * Sitemap: directives, sitemap indexes, gzipped sitemaps), and returns the page list.
+ * `sitemap_urls` lists the sitemap's page URLs; `sitemap_entries` pairs each
+ * with the sitemap file that listed it.
  */
 
 // ── CORS ──
@@ -109,42 +114,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const clientSlug = slugify(client.client_name);
 
     // Fetch robots.txt (non-fatal)
-    let robots_txt: string | null = null;
-    let disallowed: string[] = [];
-    try {
-      const robotsRes = await fetch(`${origin}/robots.txt`, {
-        headers: { 'User-Agent': 'BochiBotWeb/1.0 (site migration tool)' },
-        signal: AbortSignal.timeout(5000),
-      });
-      if (robotsRes.ok) {
-        robots_txt = await robotsRes.text();
-        disallowed = parseRobotsTxt(robots_txt);
-      }
-    } catch { /* robots.txt not available */ }
+    const robots_txt = await fetchRobotsTxt(origin);
+    const robots = parseRobotsTxt(robots_txt || '');
 
-    // Fetch sitemap.xml (non-fatal)
-    let sitemap_urls: string[] = [];
-    try {
-      const sitemapRes = await fetch(`${origin}/sitemap.xml`, {
-        headers: { 'User-Agent': 'BochiBotWeb/1.0 (site migration tool)' },
-        signal: AbortSignal.timeout(5000),
-      });
-      if (sitemapRes.ok) {
-        const xml = await sitemapRes.text();
-        sitemap_urls = parseSitemapXml(xml, origin);
-      }
-    } catch { /* sitemap not available */ }
+    // Walk sitemaps (non-fatal): robots.txt Sitemap: lines plus the default location
+    const sitemapEntryPoints = [
+      ...(robots_txt ? parseRobotsSitemaps(robots_txt) : []),
+      `${origin}/sitemap.xml`,
+    ];
+    const sitemap_entries = await discoverSitemapUrls(sitemapEntryPoints, origin);
 
     // Fetch + parse homepage
     const homepageResult = await fetchPage(startUrl);
-    if (!homepageResult) {
+    if (!homepageResult.html) {
       return res.status(502).json({
         success: false,
-        message: `Could not fetch homepage at ${startUrl}. The site may be down or blocking our request.`,
+        message: `Could not fetch homepage at ${startUrl} (${homepageResult.error}). The site may be down or blocking our request.`,
       });
     }
 
     const homepage = extractPageData(homepageResult.html, homepageResult.finalUrl, origin);
+    homepage.http = homepageResult.http;
 
     // Upload homepage HTML snapshot
     try {
@@ -166,18 +156,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Combine homepage links + sitemap URLs, deduplicate
     const allDiscovered = new Set<string>();
-    for (const link of [...homepageLinks, ...sitemap_urls]) {
+    for (const link of [...homepageLinks, ...sitemap_entries.map((entry) => entry.url)]) {
       const normalized = normalizeUrl(link, origin);
       if (normalized && normalized !== normalizeUrl(startUrl, origin)) {
         // Check robots.txt
         const path = new URL(normalized).pathname;
-        if (!isBlockedByRobots(path, disallowed)) {
+        if (!isBlockedByRobots(path, robots)) {
           allDiscovered.add(normalized);
         }
       }
     }
 
-    // Cap at 49 pages (homepage already scraped = 50 total max)
+    // Cap at 49 pages (homepage already scraped = 50 total max).
+    // Larger or deeper sites should use the crawl job endpoints (/api/crawl-start).
     const pages_to_scrape = [...allDiscovered].slice(0, 49);
 
     return res.status(200).json({
@@ -188,8 +179,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         canonical_prefix,
         ssl,
         robots_txt,
-        robots_disallowed: disallowed,
-        sitemap_urls,
+        robots_disallowed: robots.rules.filter((r) => !r.allow).map((r) => r.path),
+        robots_rules: robots.rules,
+        crawl_delay: robots.crawl_delay,
+        sitemap_urls: sitemap_entries.map((entry) => entry.url),
+        sitemap_entries, // the same URLs, each with the sitemap it was listed in
         pages_to_scrape,
         homepage,
       },
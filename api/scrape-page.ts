@@ -1,12 +1,28 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
 import { validateAuth } from './_auth.js';
-import { urlToSlug, fetchPage, extractPageData } from './_scraper.js';
+import {
+  urlToSlug,
+  fetchPage,
+  extractPageData,
+  fetchRobotsTxt,
+  parseRobotsTxt,
+  isBlockedByRobots,
+  type RobotsPolicy,
+  type RobotsRule,
+} from './_scraper.js';
 
 /**
  * POST /api/scrape-page
  * Scrapes a single page: fetches HTML, extracts structured data,
  * uploads HTML snapshot to Supabase Storage.
+ * Honors the site's robots.txt and returns its crawl-delay so the caller
+ * can pace consecutive calls. Status code, redirect hops and x-robots-tag
+ * are returned as `http`, including for pages that could not be scraped.
+ *
+ * Pass the `robots_rules` and `crawl_delay` scrape-discover returned so no
+ * call spends its time budget on robots.txt; without them it is fetched
+ * once per origin and kept for ROBOTS_TTL_MS by this instance.
  */
 
 // ── CORS ──
@@ -32,6 +48,29 @@ function getEnv(key: string): string {
   return value;
 }
 
+// ── Robots.txt ──
+
+const ROBOTS_TTL_MS = 10 * 60 * 1000;
+const robotsCache = new Map<string, { policy: RobotsPolicy; fetchedAt: number }>();
+
+/** The policy from the request body when the caller passed one, else robots.txt via the cache. */
+async function robotsPolicy(origin: string, body: { robots_rules?: unknown; crawl_delay?: unknown }): Promise<RobotsPolicy> {
+  if (Array.isArray(body.robots_rules)) {
+    return {
+      rules: body.robots_rules.filter(
+        (rule): rule is RobotsRule => typeof rule?.allow === 'boolean' && typeof rule?.path === 'string',
+      ),
+      crawl_delay: typeof body.crawl_delay === 'number' ? body.crawl_delay : null,
+    };
+  }
+
+  const cached = robotsCache.get(origin);
+  if (cached && Date.now() - cached.fetchedAt < ROBOTS_TTL_MS) return cached.policy;
+  const policy = parseRobotsTxt((await fetchRobotsTxt(origin)) || '');
+  robotsCache.set(origin, { policy, fetchedAt: Date.now() });
+  return policy;
+}
+
 // ── Handler ──
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -49,7 +88,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!user) return;
 
   try {
-    const { url, client_slug } = req.body as { url: string; client_slug: string };
+    const { url, client_slug, robots_rules, crawl_delay: knownCrawlDelay } = req.body as {
+      url: string;
+      client_slug: string;
+      robots_rules?: RobotsRule[];
+      crawl_delay?: number | null;
+    };
 
     if (!url || !client_slug) {
       return res.status(400).json({
@@ -66,21 +110,40 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ success: false, message: `Invalid URL: ${url}` });
     }
 
+    // Check robots.txt before fetching
+    const robots = await robotsPolicy(origin, { robots_rules, crawl_delay: knownCrawlDelay });
+    const crawl_delay = robots.crawl_delay;
+    const { pathname, search } = new URL(url);
+    if (isBlockedByRobots(pathname + search, robots)) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          skipped: true,
+          error: `Blocked by robots.txt: ${pathname}`,
+          url,
+          crawl_delay,
+        },
+      });
+    }
+
     // Fetch the page
     const result = await fetchPage(url);
-    if (!result) {
+    if (!result.html) {
       return res.status(200).json({
         success: true,
         data: {
           skipped: true,
-          error: `Could not fetch ${url} — page may be down, non-HTML, or timed out`,
+          error: `Could not fetch ${url}: ${result.error}`,
           url,
+          http: result.http,
+          crawl_delay,
         },
       });
     }
 
     // Extract structured data
     const page = extractPageData(result.html, result.finalUrl, origin);
+    page.http = result.http;
 
     // Upload HTML snapshot to Supabase Storage (non-fatal)
     try {
@@ -110,6 +173,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       data: {
         page,
         skipped: false,
+        crawl_delay,
       },
     });
   } catch (error: any) {
@@ -0,0 +1,127 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { auditScrapedData, auditToMarkdown, parseAuditInput } from './_seo-audit.js';
+
+/**
+ * POST /api/seo-audit
+ * Audits a client's scraped_data and stores the JSON + Markdown report on the
+ * client record under site_config.seo_audits[phase].
+ * phase "before" audits the stored scrape of the old site; for "after", pass a
+ * scraped_data of the rebuilt site in the body.
+ */
+
+type AuditPhase = 'before' | 'after';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id, phase = 'before', scraped_data } = req.body as {
+      client_id: string;
+      phase?: AuditPhase;
+      scraped_data?: unknown;
+    };
+
+    if (!client_id) {
+      return res.status(400).json({ success: false, message: 'Missing required field: client_id' });
+    }
+
+    if (phase !== 'before' && phase !== 'after') {
+      return res.status(400).json({ success: false, message: 'phase must be "before" or "after"' });
+    }
+
+    const bodyInput = scraped_data === undefined ? null : parseAuditInput(scraped_data);
+    if (bodyInput && !bodyInput.input) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid scraped_data: ${bodyInput.errors.join('; ')}`,
+      });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    // Fetch client record
+    const { data: client, error: lookupError } = await supabase
+      .from('ai_website_clients')
+      .select('id, client_name, site_config')
+      .eq('id', client_id)
+      .single();
+
+    if (lookupError || !client) {
+      return res.status(404).json({ success: false, message: 'Client not found' });
+    }
+
+    const siteConfig = (client.site_config || {}) as Record<string, any>;
+    if (!bodyInput && !siteConfig.scraped_data?.pages?.length) {
+      return res.status(400).json({
+        success: false,
+        message: 'No scraped_data found for this client. Run the site scrape first.',
+      });
+    }
+
+    const { input: scraped, errors } = bodyInput || parseAuditInput(siteConfig.scraped_data);
+    if (!scraped) {
+      return res.status(400).json({
+        success: false,
+        message: `Stored scraped_data is malformed: ${errors.join('; ')}`,
+      });
+    }
+
+    if (scraped.pages.length === 0) {
+      return res.status(400).json({ success: false, message: 'scraped_data has no pages to audit' });
+    }
+
+    const audit = auditScrapedData(scraped);
+    const heading = `SEO Audit (${phase} rebuild) — ${client.client_name || scraped.source_url}`;
+    const markdown = auditToMarkdown(audit, heading);
+
+    const { error: updateError } = await supabase
+      .from('ai_website_clients')
+      .update({
+        site_config: {
+          ...siteConfig,
+          seo_audits: {
+            ...(siteConfig.seo_audits || {}),
+            [phase]: { audit, markdown },
+          },
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', client_id);
+
+    if (updateError) {
+      throw new Error(`Failed to save SEO audit: ${updateError.message}`);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { phase, audit, markdown },
+    });
+  } catch (error: any) {
+    console.error('seo-audit error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'SEO audit failed',
+    });
+  }
+}
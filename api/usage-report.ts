@@ -0,0 +1,111 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { validateAuth } from './_auth.js';
+import { getEnv, setCorsHeaders } from './_generate-prompts.js';
+import { summarizeUsage, monthStart, addMonths } from './_usage.js';
+
+/**
+ * POST /api/usage-report
+ * Model usage and cost summed by client, pipeline step and month, for the
+ * months `from`..`to` (YYYY-MM, inclusive; defaults to the last 12 months).
+ * `totals` adds each client's monthly sum next to its monthly budget.
+ */
+
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(req, res);
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, message: 'Method not allowed' });
+  }
+
+  const user = await validateAuth(req, res);
+  if (!user) return;
+
+  try {
+    const { client_id, from, to } = (req.body || {}) as { client_id?: string; from?: string; to?: string };
+
+    if ((from && !MONTH.test(from)) || (to && !MONTH.test(to))) {
+      return res.status(400).json({ success: false, message: 'from and to must be months in YYYY-MM format' });
+    }
+
+    const lastMonth = to ? new Date(`${to}-01T00:00:00Z`) : monthStart(new Date());
+    const firstMonth = from ? new Date(`${from}-01T00:00:00Z`) : addMonths(lastMonth, -11);
+    if (firstMonth > lastMonth) {
+      return res.status(400).json({ success: false, message: 'from must not be after to' });
+    }
+
+    // Supabase client with user token for RLS
+    const supabaseUrl = getEnv('SUPABASE_URL');
+    const supabaseKey = getEnv('SUPABASE_ANON_KEY');
+    const userToken = (req.headers.authorization || '').replace('Bearer ', '');
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${userToken}` } },
+    });
+
+    const rows = await summarizeUsage(supabase, {
+      from: firstMonth,
+      to: addMonths(lastMonth, 1),
+      clientId: client_id,
+    });
+
+    // Client names and budgets for the totals
+    const clientIds = [...new Set(rows.map((row) => row.client_id).filter((id): id is string => !!id))];
+    const { data: clients, error: clientsError } = clientIds.length
+      ? await supabase.from('ai_website_clients').select('id, client_name, monthly_llm_budget_usd').in('id', clientIds)
+      : { data: [], error: null };
+    if (clientsError) {
+      throw new Error(`Failed to load clients: ${clientsError.message}`);
+    }
+    const clientById = new Map((clients || []).map((client) => [client.id as string, client]));
+
+    const totals = new Map<string, {
+      client_id: string | null;
+      client_name: string | null;
+      month: string;
+      calls: number;
+      cost_usd: number;
+      budget_usd: number | null;
+    }>();
+    for (const row of rows) {
+      const key = `${row.month}|${row.client_id}`;
+      let total = totals.get(key);
+      if (!total) {
+        const client = row.client_id ? clientById.get(row.client_id) : undefined;
+        total = {
+          client_id: row.client_id,
+          client_name: client?.client_name ?? null,
+          month: row.month,
+          calls: 0,
+          cost_usd: 0,
+          budget_usd: client?.monthly_llm_budget_usd != null ? Number(client.monthly_llm_budget_usd) : null,
+        };
+        totals.set(key, total);
+      }
+      total.calls += row.calls;
+      total.cost_usd += row.cost_usd;
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        from: firstMonth.toISOString().slice(0, 7),
+        to: lastMonth.toISOString().slice(0, 7),
+        rows,
+        totals: [...totals.values()],
+      },
+    });
+  } catch (error: any) {
+    console.error('usage-report error:', error);
+    return res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to build usage report',
+    });
+  }
+}
@@ -2,9 +2,12 @@
 import { defineConfig } from 'astro/config';
 import tailwindcss from '@tailwindcss/vite';
 import vercel from '@astrojs/vercel';
+import { siteConfig } from './src/data/siteConfig.ts';
 
 // https://astro.build/config
 export default defineConfig({
+  // Absolute URLs (canonical, Open Graph, JSON-LD) use the client's domain
+  site: siteConfig.siteUrl,
   output: 'static',
   adapter: vercel(),
   vite: {
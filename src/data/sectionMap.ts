@@ -4,8 +4,9 @@
  * Used by the edit API to know which file to fetch and modify.
  *
  * Component sections live in dedicated files.
- * Page-inline sections (service pages, contact) live inside page files
- * and are resolved by the current page URL.
+ * Service page sections resolve to that service's content file
+ * (src/data/services/{slug}.ts), picked by the current page URL.
+ * Other page-inline sections (contact) live inside page files.
  */
 
 /** Sections that are dedicated component files */
@@ -22,22 +23,26 @@ export const componentSections: Record<string, string> = {
   'footer': 'src/components/sections/Footer.astro',
 };
 
-/** Sections that live inline inside page files */
-const pageSections = new Set([
+/** Sections of src/pages/services/[slug].astro, whose content lives in the service's data file */
+export const serviceSections = new Set([
   'service-hero',
   'service-overview',
   'service-features',
   'service-process',
   'service-faq',
   'service-cta',
+]);
+
+/** The template every service page is rendered from */
+export const SERVICE_PAGE_TEMPLATE = 'src/pages/services/[slug].astro';
+
+/** Sections that live inline inside page files */
+const pageSections = new Set([
   'contact',
 ]);
 
 /** Page URL pathname → source file path */
 const pageFileMap: Record<string, string> = {
-  '/services/service-one/': 'src/pages/services/service-one.astro',
-  '/services/service-two/': 'src/pages/services/service-two.astro',
-  '/services/service-three/': 'src/pages/services/service-three.astro',
   '/contact/': 'src/pages/contact.astro',
 };
 
@@ -54,10 +59,17 @@ export function resolveFilePath(
     return componentSections[section];
   }
 
+  // Normalize the page URL (ensure trailing slash)
+  const normalized = currentPage.endsWith('/') ? currentPage : currentPage + '/';
+
+  // Service page sections → /services/{slug}/ → src/data/services/{slug}.ts
+  if (serviceSections.has(section)) {
+    const slug = normalized.match(/^\/services\/([a-z0-9-]+)\/$/)?.[1];
+    return slug ? `src/data/services/${slug}.ts` : null;
+  }
+
   // Check page-inline sections
   if (pageSections.has(section)) {
-    // Normalize the page URL (ensure trailing slash)
-    const normalized = currentPage.endsWith('/') ? currentPage : currentPage + '/';
     return pageFileMap[normalized] || null;
   }
 
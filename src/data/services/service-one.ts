@@ -0,0 +1,49 @@
+/**
+ * Service page content for siteConfig.services slug "service-one".
+ * Rendered by src/pages/services/[slug].astro.
+ */
+
+import { siteConfig, type ServiceDetails } from '../siteConfig';
+
+const details: ServiceDetails = {
+  hero: {
+    image: 'https://images.unsplash.com/photo-1504307651254-35680f356dfd?w=1600&q=80',
+    text: 'Reliable, professional service tailored to your needs. We bring the expertise, equipment, and care to get the job done right the first time.',
+  },
+  overview: {
+    paragraphs: [
+      `Our residential cleaning service is designed to deliver consistent, high-quality results for homeowners across ${siteConfig.address.city}. Whether you're dealing with routine upkeep or a more involved project, we have the tools, training, and experience to handle it.`,
+      'Every job starts with a thorough assessment so we understand exactly what needs to be done. We provide a clear, written quote before any work begins — no surprises, no hidden fees. Our team works efficiently and respectfully, keeping you informed every step of the way.',
+    ],
+    image: 'https://images.unsplash.com/photo-1581578731548-c64695cc6952?w=800&q=80',
+    imageAlt: 'Residential cleaning in progress',
+  },
+  features: {
+    intro: "Here's what sets our service apart from the rest.",
+    items: [
+      { title: 'Thorough Inspection', description: 'We start every job with a comprehensive assessment so nothing gets missed.' },
+      { title: 'Quality Materials', description: 'We use only professional-grade materials and products for lasting results.' },
+      { title: 'Expert Technicians', description: 'Our crew is trained, certified, and experienced in all aspects of this service.' },
+      { title: 'Clean Finish', description: 'We leave your space cleaner than we found it — guaranteed.' },
+      { title: 'On-Time Service', description: 'We show up when we say we will. Your time matters to us.' },
+      { title: 'Warranty Included', description: 'Every job is backed by our workmanship warranty for your peace of mind.' },
+    ],
+  },
+  process: {
+    intro: "From first call to final walkthrough, here's how we work.",
+    steps: [
+      { title: 'Free Consultation', description: 'We visit your property, assess the scope, and provide a transparent quote.' },
+      { title: 'Schedule & Prepare', description: 'Pick a date that works for you. We handle all the prep and logistics.' },
+      { title: 'Professional Execution', description: 'Our team completes the work efficiently and to the highest standard.' },
+      { title: 'Final Walkthrough', description: 'We review the results with you to ensure everything exceeds expectations.' },
+    ],
+  },
+  faqs: [
+    { question: 'How long does this service typically take?', answer: 'Most projects are completed in 1–3 days depending on scope. We\'ll give you an accurate timeline during your consultation.' },
+    { question: 'Do I need to be home during the service?', answer: 'Not necessarily. Many of our clients provide access and we communicate progress via text or email throughout the day.' },
+    { question: 'What if I\'m not satisfied with the results?', answer: 'Your satisfaction is guaranteed. If anything doesn\'t meet your expectations, we\'ll come back and make it right at no additional cost.' },
+    { question: 'Can you work around my schedule?', answer: 'Absolutely. We offer flexible scheduling including early morning and weekend availability to minimize disruption to your routine.' },
+  ],
+};
+
+export default details;
@@ -0,0 +1,49 @@
+/**
+ * Service page content for siteConfig.services slug "service-three".
+ * Rendered by src/pages/services/[slug].astro.
+ */
+
+import type { ServiceDetails } from '../siteConfig';
+
+const details: ServiceDetails = {
+  hero: {
+    image: 'https://images.unsplash.com/photo-1558618666-fcd25c85f82e?w=1600&q=80',
+    text: 'Comprehensive protection for your home and property. We handle the details so you can enjoy total peace of mind.',
+  },
+  overview: {
+    paragraphs: [
+      'Our home protection service provides complete, worry-free coverage for your property. We start with a comprehensive audit to understand your unique situation, then build a custom solution that fits your needs and budget.',
+      "From initial setup to ongoing maintenance, we handle everything with the professionalism and care your home deserves. Our certified team stays on top of the latest industry standards so you don't have to.",
+    ],
+    image: 'https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=800&q=80',
+    imageAlt: 'Home protection consultation',
+  },
+  features: {
+    intro: 'Complete protection, total peace of mind.',
+    items: [
+      { title: 'Round-the-Clock Protection', description: 'Our solutions work 24/7 so you don\'t have to worry — even when you\'re away.' },
+      { title: 'Proactive Monitoring', description: 'We identify and address vulnerabilities before they become real problems.' },
+      { title: 'Certified Specialists', description: 'Our team holds industry certifications and stays current with best practices.' },
+      { title: 'Comprehensive Coverage', description: 'We protect every angle — nothing slips through the cracks.' },
+      { title: 'Transparent Communication', description: 'Regular updates and detailed reports keep you fully informed.' },
+      { title: 'Guaranteed Satisfaction', description: 'If you\'re not 100% happy, we\'ll make it right. Period.' },
+    ],
+  },
+  process: {
+    intro: 'A proven approach to keeping your property safe.',
+    steps: [
+      { title: 'Security Audit', description: 'We perform a thorough evaluation of your property\'s current protection level.' },
+      { title: 'Custom Solution', description: 'We design a tailored protection plan based on your specific needs and budget.' },
+      { title: 'Professional Setup', description: 'Our certified team installs and configures everything to the highest standard.' },
+      { title: 'Ongoing Maintenance', description: 'We provide regular check-ins and adjustments to keep your protection current.' },
+    ],
+  },
+  faqs: [
+    { question: 'What does your protection plan cover?', answer: 'Our plans are customizable, but a standard package includes a full property assessment, implementation of protective measures, regular inspections, and 24/7 emergency response support.' },
+    { question: 'How quickly can you respond to emergencies?', answer: 'For active clients, we offer priority emergency response — typically within 2-4 hours. For after-hours emergencies, our on-call team is available 24/7.' },
+    { question: 'Do you offer maintenance agreements?', answer: 'Yes. Our annual maintenance agreements include scheduled inspections, priority service, and discounted rates on any additional work. Most clients find the peace of mind well worth it.' },
+    { question: 'Can you work with my existing setup?', answer: 'Absolutely. We\'re experienced with all major systems and brands. During our audit, we\'ll evaluate what you have and recommend upgrades only where necessary.' },
+  ],
+};
+
+export default details;
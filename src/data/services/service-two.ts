@@ -0,0 +1,49 @@
+/**
+ * Service page content for siteConfig.services slug "service-two".
+ * Rendered by src/pages/services/[slug].astro.
+ */
+
+import type { ServiceDetails } from '../siteConfig';
+
+const details: ServiceDetails = {
+  hero: {
+    image: 'https://images.unsplash.com/photo-1460317442991-0ec209397118?w=1600&q=80',
+    text: 'Smart, strategic service that helps you stay ahead of problems and keep your property performing at its best.',
+  },
+  overview: {
+    paragraphs: [
+      'Our property maintenance service goes beyond the surface. We take a strategic, analytical approach to identify what your property actually needs — then deliver targeted solutions that save you time and money in the long run.',
+      'Every engagement includes a detailed assessment, a clear plan of action, and a follow-up review to make sure the results are sticking. No guesswork, no wasted effort.',
+    ],
+    image: 'https://images.unsplash.com/photo-1454165804606-c3d57bc86b40?w=800&q=80',
+    imageAlt: 'Property maintenance consultation',
+  },
+  features: {
+    intro: "Here's what sets our service apart from the rest.",
+    items: [
+      { title: 'Data-Driven Approach', description: 'We analyze the numbers before recommending solutions so every decision is backed by evidence.' },
+      { title: 'Custom Plans', description: 'No cookie-cutter solutions here. Every plan is tailored to your property and priorities.' },
+      { title: 'Ongoing Support', description: 'We don\'t disappear after the first visit. We\'re here for follow-ups and adjustments.' },
+      { title: 'Clear Reporting', description: 'You\'ll always know what was done, what was found, and what comes next.' },
+      { title: 'Preventive Focus', description: 'We catch small issues before they become costly problems.' },
+      { title: 'Flexible Scheduling', description: 'Weekend and evening appointments available to fit your busy life.' },
+    ],
+  },
+  process: {
+    intro: 'A methodical approach that delivers real results.',
+    steps: [
+      { title: 'Initial Assessment', description: 'We evaluate your current situation and identify opportunities for improvement.' },
+      { title: 'Custom Proposal', description: 'We build a detailed plan with clear pricing, timeline, and expected outcomes.' },
+      { title: 'Implementation', description: 'Our specialists carry out the plan with precision and minimal disruption.' },
+      { title: 'Review & Adjust', description: 'We follow up to measure results and make any necessary fine-tuning.' },
+    ],
+  },
+  faqs: [
+    { question: 'How often should I schedule this service?', answer: 'For most homeowners, we recommend a quarterly schedule. We\'ll assess your specific situation and suggest the ideal frequency during your consultation.' },
+    { question: 'Is there a minimum contract required?', answer: 'No long-term contracts. We earn your business every visit. That said, many clients choose our maintenance plans for convenience and savings.' },
+    { question: 'What makes your approach different?', answer: 'We combine modern techniques with old-fashioned attention to detail. Every job includes a written report so you have full transparency into the work performed.' },
+    { question: 'Do you offer emergency services?', answer: 'Yes. For urgent situations, we offer same-day and next-day service whenever possible. Call us directly for emergency scheduling.' },
+  ],
+};
+
+export default details;
@@ -2,45 +2,133 @@
  * Site Configuration
  * ------------------
  * Centralized business information referenced by all components.
- * To spin up a new client site, change the values in this file.
+ * To spin up a new client site, change the values in this file. Its shape
+ * (with notes on every field) is SiteConfig in ./siteConfigSchema.ts; site
+ * generation writes this file with siteConfigSource(), so keep it data only.
  */
 
-export const siteConfig = {
+import type { SiteConfig } from './siteConfigSchema';
+
+export type {
+  BusinessHours,
+  FormField,
+  FormFieldType,
+  FormSchema,
+  Location,
+  NavItem,
+  Service,
+  ServiceDetails,
+  ServiceIcon,
+  SiteConfig,
+  SiteFonts,
+  TimeRange,
+  Weekday,
+} from './siteConfigSchema';
+
+export const siteConfig: SiteConfig = {
   businessName: "Starter Business",
   tagline: "Your Trusted Local Partner",
   phone: "(555) 123-4567",
   email: "info@starterbusiness.com",
-  address: {
-    street: "123 Main Street",
-    city: "Cedar Rapids",
-    state: "Iowa",
-    zip: "52401",
-  },
-  socials: {
-    facebook: "#",
-    instagram: "#",
-    google: "#",
+  siteUrl: "https://www.starterbusiness.com",
+  locale: "en_US",
+  noindexStaging: true,
+  fonts: { heading: "Inter", body: "Inter" },
+  address: { street: "123 Main Street", city: "Cedar Rapids", state: "Iowa", zip: "52401" },
+  locations: [
+    {
+      name: "Cedar Rapids",
+      primary: true,
+      street: "123 Main Street",
+      city: "Cedar Rapids",
+      state: "Iowa",
+      zip: "52401",
+      phone: "(555) 123-4567",
+    },
+  ],
+  hours: {
+    timeZone: "America/Chicago",
+    weekly: {
+      monday: [{ opens: "08:00", closes: "18:00" }],
+      tuesday: [{ opens: "08:00", closes: "18:00" }],
+      wednesday: [{ opens: "08:00", closes: "18:00" }],
+      thursday: [{ opens: "08:00", closes: "18:00" }],
+      friday: [{ opens: "08:00", closes: "18:00" }],
+      saturday: [{ opens: "09:00", closes: "14:00" }],
+      sunday: [],
+    },
+    exceptions: [
+      { date: "2026-12-25", label: "Christmas Day", hours: [] },
+      { date: "2027-01-01", label: "New Year's Day", hours: [] },
+    ],
   },
+  navigation: [
+    { label: "Home", href: "/" },
+    {
+      label: "Services",
+      href: "/#services",
+      children: [
+        { label: "Residential Cleaning", href: "/services/service-one/" },
+        { label: "Property Maintenance", href: "/services/service-two/" },
+        { label: "Home Protection", href: "/services/service-three/" },
+      ],
+    },
+    { label: "About", href: "/#about" },
+    { label: "Contact", href: "/contact/" },
+  ],
+  forms: [
+    {
+      id: "contact",
+      kind: "contact",
+      title: "Send Us a Message",
+      submitLabel: "Send Message",
+      fields: [
+        {
+          name: "name",
+          label: "Full Name",
+          type: "text",
+          required: true,
+          placeholder: "John Doe",
+          width: "half",
+        },
+        {
+          name: "email",
+          label: "Email Address",
+          type: "email",
+          required: true,
+          placeholder: "john@example.com",
+          width: "half",
+        },
+        { name: "phone", label: "Phone Number", type: "tel", placeholder: "(555) 123-4567" },
+        { name: "service", label: "Service Interested In", type: "select", optionsFrom: "services" },
+        {
+          name: "message",
+          label: "Message",
+          type: "textarea",
+          required: true,
+          placeholder: "Tell us about your project or question...",
+        },
+      ],
+    },
+  ],
+  socials: { facebook: "#", instagram: "#", google: "#" },
   services: [
     {
       title: "Residential Cleaning",
       slug: "service-one",
-      description:
-        "We'll make your home shine with our thorough, eco-friendly cleaning services. Regular maintenance or deep clean, we've got you covered.",
+      description: "We'll make your home shine with our thorough, eco-friendly cleaning services. Regular maintenance or deep clean, we've got you covered.",
       icon: "wrench",
     },
     {
       title: "Property Maintenance",
       slug: "service-two",
-      description:
-        "Keep your property in peak condition year-round. From seasonal upkeep to preventive repairs, we handle the details so you don't have to.",
+      description: "Keep your property in peak condition year-round. From seasonal upkeep to preventive repairs, we handle the details so you don't have to.",
       icon: "chart",
     },
     {
       title: "Home Protection",
       slug: "service-three",
-      description:
-        "Comprehensive protection plans that safeguard your biggest investment. Inspections, monitoring, and rapid response when you need it most.",
+      description: "Comprehensive protection plans that safeguard your biggest investment. Inspections, monitoring, and rapid response when you need it most.",
       icon: "shield",
     },
   ],
@@ -0,0 +1,311 @@
+/**
+ * Site Configuration Schema
+ * -------------------------
+ * The SiteConfig type siteConfig.ts exports, its runtime schema, and
+ * siteConfigSource(), which writes siteConfig.ts from a validated config.
+ * Site generation (api/_generate-config.ts) has the model return SiteConfig
+ * as JSON, checks it with parseSiteConfig() and emits the file from the
+ * result — so the API imports this module too; keep it free of astro: imports.
+ */
+
+import { z } from 'astro/zod';
+
+// ── Types ──
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** 24h "HH:MM" times. A closing time earlier than the opening time runs past midnight. */
+export interface TimeRange {
+  opens: string;
+  closes: string;
+}
+
+/** Weekly opening hours plus dated exceptions (holidays, special hours). */
+export interface BusinessHours {
+  timeZone: string; // IANA zone the times are in, e.g. "America/Chicago"
+  weekly: Record<Weekday, TimeRange[]>; // [] = closed that day
+  exceptions: { date: string; label?: string; hours: TimeRange[] }[]; // date is YYYY-MM-DD; [] = closed
+}
+
+/** A physical business location. Exactly one is marked primary. */
+export interface Location {
+  name: string;
+  primary: boolean;
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+  geo?: { lat: number; lng: number };
+  hours?: BusinessHours; // only when this location's hours differ from siteConfig.hours
+}
+
+/** A header menu entry. Children render as a dropdown on desktop and an accordion on mobile. */
+export interface NavItem {
+  label: string;
+  href?: string; // omit for a dropdown heading that isn't a page itself
+  children?: NavItem[];
+}
+
+export const FORM_FIELD_TYPES = [
+  'text', 'email', 'tel', 'number', 'date', 'time', 'textarea', 'select', 'radio', 'checkbox',
+] as const;
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+
+/** One form input. `name` is the key the value is submitted under. */
+export interface FormField {
+  name: string;
+  label: string;
+  type: FormFieldType;
+  required?: boolean;
+  placeholder?: string;
+  options?: string[]; // choices for select / radio / checkbox
+  optionsFrom?: 'services'; // use siteConfig.services as the choices instead
+  width?: 'half' | 'full'; // desktop layout, defaults to full
+}
+
+/** A lead form, mapped from the forms on the client's old site. */
+export interface FormSchema {
+  id: string; // submitted as form_id so leads can be told apart
+  kind: 'contact' | 'quote' | 'booking';
+  title: string;
+  submitLabel: string;
+  fields: FormField[];
+}
+
+/** Icons the Services section has artwork for. */
+export const SERVICE_ICONS = [
+  'wrench', 'chart', 'shield', 'home', 'star', 'truck', 'leaf', 'droplet', 'hammer', 'sparkles',
+] as const;
+export type ServiceIcon = (typeof SERVICE_ICONS)[number];
+
+/** A service card, and the /services/{slug}/ page built from src/data/services/{slug}.ts. */
+export interface Service {
+  title: string;
+  slug: string; // kebab-case, unique
+  description: string;
+  icon: ServiceIcon;
+}
+
+/**
+ * Page content for one service, in src/data/services/{slug}.ts. The title,
+ * description and icon stay in siteConfig.services; this is the rest of
+ * its /services/{slug}/ page.
+ */
+export interface ServiceDetails {
+  hero: { image: string; text: string };
+  overview: { paragraphs: string[]; image: string; imageAlt: string };
+  features: { intro: string; items: { title: string; description: string }[] };
+  process: { intro: string; steps: { title: string; description: string }[] }; // numbered in order
+  faqs: { question: string; answer: string }[];
+}
+
+/**
+ * Google Fonts families for headings and body text (e.g. "Playfair Display").
+ * BaseLayout loads them, and theme.css's --font-heading / --font-body name them.
+ */
+export interface SiteFonts {
+  heading: string;
+  body: string;
+}
+
+export interface SiteConfig {
+  businessName: string;
+  tagline: string;
+  phone: string;
+  email: string;
+  siteUrl: string; // canonical origin — keep the www / non-www host the old site used
+  locale: string; // og:locale, e.g. "en_US"
+  noindexStaging: boolean; // keep preview/staging copies on *.vercel.app out of search results
+  logoPath?: string; // e.g. "/logo.png" in public/, when the client has a logo
+  fonts: SiteFonts;
+  address: { street: string; city: string; state: string; zip: string };
+  locations: Location[]; // every shop/office; `address` and `phone` mirror the primary one
+  hours: BusinessHours | null; // null when the business doesn't publish hours — never invent them
+  navigation: NavItem[]; // header menu, in display order
+  forms: FormSchema[]; // lead forms on the contact page, main form first
+  socials: Record<string, string>; // profile URL by network (facebook, instagram, google, …)
+  services: Service[];
+}
+
+// ── Runtime schema ──
+
+const KEBAB_CASE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const TIME = /^(?:[01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+export const FONT_FAMILY = /^[A-Za-z0-9]+(?: [A-Za-z0-9]+)*$/; // Google Fonts family names are words and spaces
+
+const timeRangeSchema = z.object({
+  opens: z.string().regex(TIME, 'must be a 24h "HH:MM" time'),
+  closes: z.string().regex(TIME, 'must be a 24h "HH:MM" time'),
+});
+
+const dayHoursSchema = z.array(timeRangeSchema);
+
+const businessHoursSchema = z.object({
+  timeZone: z.string().min(1),
+  weekly: z.object({
+    monday: dayHoursSchema,
+    tuesday: dayHoursSchema,
+    wednesday: dayHoursSchema,
+    thursday: dayHoursSchema,
+    friday: dayHoursSchema,
+    saturday: dayHoursSchema,
+    sunday: dayHoursSchema,
+  }),
+  exceptions: z.array(z.object({
+    date: z.string().regex(DATE, 'must be a YYYY-MM-DD date'),
+    label: z.string().optional(),
+    hours: dayHoursSchema,
+  })),
+});
+
+const locationSchema = z.object({
+  name: z.string().min(1),
+  primary: z.boolean(),
+  street: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zip: z.string(),
+  phone: z.string(),
+  geo: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  hours: businessHoursSchema.optional(),
+});
+
+const navItemSchema: z.ZodType<NavItem> = z.lazy(() =>
+  z.object({
+    label: z.string().min(1),
+    href: z.string().optional(),
+    children: z.array(navItemSchema).optional(),
+  }),
+);
+
+const formSchemaSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['contact', 'quote', 'booking']),
+  title: z.string(),
+  submitLabel: z.string(),
+  fields: z.array(z.object({
+    name: z.string().min(1),
+    label: z.string(),
+    type: z.enum(FORM_FIELD_TYPES),
+    required: z.boolean().optional(),
+    placeholder: z.string().optional(),
+    options: z.array(z.string()).optional(),
+    optionsFrom: z.literal('services').optional(),
+    width: z.enum(['half', 'full']).optional(),
+  })).min(1),
+});
+
+const serviceSchema = z.object({
+  title: z.string().min(1),
+  slug: z.string().regex(KEBAB_CASE, 'must be kebab-case, e.g. "pressure-washing"'),
+  description: z.string(),
+  icon: z.enum(SERVICE_ICONS),
+});
+
+export const siteConfigSchema: z.ZodType<SiteConfig> = z
+  .object({
+    businessName: z.string().min(1),
+    tagline: z.string(),
+    phone: z.string(),
+    email: z.string(),
+    siteUrl: z.string().url(),
+    locale: z.string().min(1),
+    noindexStaging: z.boolean(),
+    logoPath: z.string().optional(),
+    fonts: z.object({
+      heading: z.string().regex(FONT_FAMILY, 'must be a Google Fonts family, e.g. "Open Sans"'),
+      body: z.string().regex(FONT_FAMILY, 'must be a Google Fonts family, e.g. "Open Sans"'),
+    }),
+    address: z.object({ street: z.string(), city: z.string(), state: z.string(), zip: z.string() }),
+    locations: z.array(locationSchema),
+    hours: businessHoursSchema.nullable(),
+    navigation: z.array(navItemSchema),
+    forms: z.array(formSchemaSchema),
+    socials: z.record(z.string()),
+    services: z.array(serviceSchema).min(1),
+  })
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    config.services.forEach((service, i) => {
+      if (seen.has(service.slug)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['services', i, 'slug'], message: `duplicate slug "${service.slug}"` });
+      }
+      seen.add(service.slug);
+    });
+
+    const primaries = config.locations.filter((location) => location.primary).length;
+    if (config.locations.length > 0 && primaries !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['locations'],
+        message: `exactly one location must be primary (found ${primaries})`,
+      });
+    }
+  });
+
+/** Validate `value` as a SiteConfig. Errors are "path: message" lines to hand back to the model. */
+export function parseSiteConfig(value: unknown): { config: SiteConfig | null; errors: string[] } {
+  const result = siteConfigSchema.safeParse(value);
+  if (result.success) return { config: result.data, errors: [] };
+  return {
+    config: null,
+    errors: result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+// ── siteConfig.ts emitter ──
+
+const TYPE_EXPORTS = [
+  'BusinessHours', 'FormField', 'FormFieldType', 'FormSchema', 'Location', 'NavItem', 'Service',
+  'ServiceDetails', 'ServiceIcon', 'SiteConfig', 'SiteFonts', 'TimeRange', 'Weekday',
+];
+
+/**
+ * The contents of src/data/siteConfig.ts for `config`. Keys come out in
+ * schema order whatever order the input had, so the same config always
+ * produces the same file.
+ */
+export function siteConfigSource(config: SiteConfig): string {
+  return `/**
+ * Site Configuration
+ * ------------------
+ * Centralized business information referenced by all components.
+ * To spin up a new client site, change the values in this file. Its shape
+ * (with notes on every field) is SiteConfig in ./siteConfigSchema.ts; site
+ * generation writes this file with siteConfigSource(), so keep it data only.
+ */
+
+import type { SiteConfig } from './siteConfigSchema';
+
+export type {
+${TYPE_EXPORTS.map((name) => `  ${name},`).join('\n')}
+} from './siteConfigSchema';
+
+export const siteConfig: SiteConfig = ${toSource(siteConfigSchema.parse(config), '')};
+`;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const MAX_INLINE_LENGTH = 100;
+
+/** A TypeScript literal for `value`; objects and arrays that fit on one line stay there. */
+function toSource(value: unknown, indent: string): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'undefined';
+
+  const inner = `${indent}  `;
+  const items = Array.isArray(value)
+    ? value.map((item) => toSource(item, inner))
+    : Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([key, v]) => `${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${toSource(v, inner)}`);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }'];
+
+  if (items.length === 0) return Array.isArray(value) ? '[]' : '{}';
+  const inline = `${open}${items.join(', ')}${close}`;
+  if (!inline.includes('\n') && indent.length + inline.length <= MAX_INLINE_LENGTH) return inline;
+
+  return `${open.trim()}\n${items.map((item) => `${inner}${item},`).join('\n')}\n${indent}${close.trim()}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * Web Font Helpers
+ * ----------------
+ * The Google Fonts stylesheet for siteConfig.fonts, loaded by BaseLayout.
+ */
+
+import type { SiteFonts } from '../data/siteConfig';
+
+const WEIGHTS = '400;500;600;700;800';
+
+/** One css2 request for both families (deduped), e.g. family=Inter:wght@400;…&display=swap */
+export function googleFontsUrl(fonts: SiteFonts): string {
+  const families = [...new Set([fonts.heading, fonts.body])]
+    .map((family) => `family=${encodeURIComponent(family.trim()).replace(/%20/g, '+')}:wght@${WEIGHTS}`)
+    .join('&');
+  return `https://fonts.googleapis.com/css2?${families}&display=swap`;
+}
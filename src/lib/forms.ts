@@ -0,0 +1,29 @@
+/**
+ * Form Helpers
+ * ------------
+ * Shared by the ContactForm component and the /form-schema.json endpoint
+ * that /api/contact validates submissions against.
+ */
+
+import { siteConfig, type FormField, type FormSchema } from '../data/siteConfig';
+
+/** Choices as value/label pairs; service choices follow siteConfig.services. */
+export function fieldChoices(field: FormField): { value: string; label: string }[] {
+  if (field.optionsFrom === 'services') {
+    return [
+      ...siteConfig.services.map((s) => ({ value: s.slug, label: s.title })),
+      { value: 'other', label: 'Other / General Inquiry' },
+    ];
+  }
+  return (field.options || []).map((option) => ({ value: option, label: option }));
+}
+
+/** The forms with every field's allowed values spelled out, as the server sees them. */
+export function resolvedForms(): FormSchema[] {
+  return siteConfig.forms.map((form) => ({
+    ...form,
+    fields: form.fields.map(({ optionsFrom, ...field }) =>
+      optionsFrom ? { ...field, options: fieldChoices({ ...field, optionsFrom }).map((c) => c.value) } : field,
+    ),
+  }));
+}
@@ -0,0 +1,125 @@
+/**
+ * Business Hours Helpers
+ * ----------------------
+ * Formatting and open/closed logic for siteConfig.hours.
+ * Shared by the BusinessHours component at build time and its
+ * "Open now" script in the browser.
+ */
+
+import type { BusinessHours, TimeRange, Weekday } from '../data/siteConfig';
+
+const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const SHORT_DAY: Record<Weekday, string> = {
+  monday: 'Mon', tuesday: 'Tue', wednesday: 'Wed', thursday: 'Thu',
+  friday: 'Fri', saturday: 'Sat', sunday: 'Sun',
+};
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** "17:30" → "5:30 PM" */
+export function formatTime(time: string): string {
+  const [h, m] = time.split(':').map(Number);
+  const suffix = h >= 12 && h < 24 ? 'PM' : 'AM';
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return `${hour}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+export function formatRanges(ranges: TimeRange[]): string {
+  if (ranges.length === 0) return 'Closed';
+  if (ranges.length === 1 && ranges[0].opens === '00:00' && ranges[0].closes >= '23:59') return 'Open 24 hours';
+  return ranges.map((r) => `${formatTime(r.opens)} – ${formatTime(r.closes)}`).join(', ');
+}
+
+/** Collapse consecutive days with identical hours: [{ days: "Mon – Fri", hours: "8:00 AM – 6:00 PM" }, …] */
+export function groupWeeklyHours(weekly: BusinessHours['weekly']): { days: string; hours: string }[] {
+  const groups: { start: Weekday; end: Weekday; hours: string }[] = [];
+  for (const day of WEEKDAYS) {
+    const hours = formatRanges(weekly[day] || []);
+    const last = groups[groups.length - 1];
+    if (last && last.hours === hours) {
+      last.end = day;
+    } else {
+      groups.push({ start: day, end: day, hours });
+    }
+  }
+  return groups.map((g) => ({
+    days: g.start === g.end ? SHORT_DAY[g.start] : `${SHORT_DAY[g.start]} – ${SHORT_DAY[g.end]}`,
+    hours: g.hours,
+  }));
+}
+
+/** Date, weekday and minutes past midnight in the business's time zone. */
+function zonedNow(timeZone: string, now: Date): { date: string; weekday: Weekday; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase() as Weekday,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function rangesOn(hours: BusinessHours, date: string, weekday: Weekday): TimeRange[] {
+  const exception = hours.exceptions.find((e) => e.date === date);
+  return exception ? exception.hours : hours.weekly[weekday] || [];
+}
+
+function previousDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d - 1)).toISOString().slice(0, 10);
+}
+
+/** Whether the business is open at `now`, honoring exceptions and ranges that run past midnight. */
+export function isOpenNow(hours: BusinessHours, now: Date = new Date()): boolean {
+  const { date, weekday, minutes } = zonedNow(hours.timeZone, now);
+
+  const openToday = rangesOn(hours, date, weekday).some((r) => {
+    const opens = toMinutes(r.opens);
+    const closes = toMinutes(r.closes);
+    return closes > opens ? minutes >= opens && minutes < closes : minutes >= opens;
+  });
+  if (openToday) return true;
+
+  // Yesterday's late-night range still running
+  const yesterday = WEEKDAYS[(WEEKDAYS.indexOf(weekday) + 6) % 7];
+  return rangesOn(hours, previousDate(date), yesterday).some((r) => {
+    const closes = toMinutes(r.closes);
+    return closes <= toMinutes(r.opens) && minutes < closes;
+  });
+}
+
+/** Exceptions dated today or later, soonest first. */
+export function upcomingExceptions(
+  hours: BusinessHours,
+  now: Date = new Date(),
+): { date: string; label: string; hours: string }[] {
+  const today = zonedNow(hours.timeZone, now).date;
+  return hours.exceptions
+    .filter((e) => e.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((e) => {
+      const [y, m, d] = e.date.split('-').map(Number);
+      const label = new Date(Date.UTC(y, m - 1, d)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+      return { date: e.date, label: e.label ? `${label} (${e.label})` : label, hours: formatRanges(e.hours) };
+    });
+}
+
+/** Today's date (YYYY-MM-DD) in the business's time zone. */
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  return zonedNow(timeZone, now).date;
+}
@@ -0,0 +1,115 @@
+/**
+ * Open Graph Images
+ * -----------------
+ * Branded 1200×630 share images, one per page, drawn as SVG from
+ * siteConfig and the theme colors. The /og/[slug].png endpoint turns
+ * them into PNGs at build time; BaseLayout links each page to its image.
+ */
+
+import { siteConfig } from '../data/siteConfig';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+export interface OgPage {
+  slug: string; // image file name, /og/{slug}.png
+  path: string; // page the image belongs to
+  title: string;
+  subtitle: string;
+}
+
+export interface OgTheme {
+  primary: string;
+  primaryLight: string;
+  secondary: string;
+  accent: string;
+}
+
+// Used for any variable theme.css doesn't define as a plain hex color
+const DEFAULT_THEME: OgTheme = {
+  primary: '#2563eb',
+  primaryLight: '#dbeafe',
+  secondary: '#0f172a',
+  accent: '#f59e0b',
+};
+
+/** Every page that gets its own image. Other pages share the homepage image. */
+export function ogPages(): OgPage[] {
+  return [
+    { slug: 'index', path: '/', title: siteConfig.tagline, subtitle: `Serving ${siteConfig.address.city}, ${siteConfig.address.state}` },
+    { slug: 'contact', path: '/contact/', title: 'Contact Us', subtitle: `Call ${siteConfig.phone} or send us a message` },
+    ...siteConfig.services.map((service) => ({
+      slug: `services-${service.slug}`,
+      path: `/services/${service.slug}/`,
+      title: service.title,
+      subtitle: service.description,
+    })),
+  ];
+}
+
+/** "/services/roofing" → "/og/services-roofing.png" */
+export function ogImagePath(pathname: string): string {
+  const path = pathname.endsWith('/') ? pathname : `${pathname}/`;
+  const page = ogPages().find((p) => p.path === path) || ogPages()[0];
+  return `/og/${page.slug}.png`;
+}
+
+/** Brand colors from the `:root` block of theme.css. */
+export function themeColors(css: string): OgTheme {
+  const read = (name: string, fallback: string) => {
+    const match = css.match(new RegExp(`--color-${name}:\\s*(#[0-9a-f]{3,8})\\s*;`, 'i'));
+    return match ? match[1] : fallback;
+  };
+  return {
+    primary: read('primary', DEFAULT_THEME.primary),
+    primaryLight: read('primary-light', DEFAULT_THEME.primaryLight),
+    secondary: read('secondary', DEFAULT_THEME.secondary),
+    accent: read('accent', DEFAULT_THEME.accent),
+  };
+}
+
+export function ogImageSvg(page: OgPage, theme: OgTheme): string {
+  const font = "Inter, 'Helvetica Neue', Arial, sans-serif";
+  const title = wrapText(page.title, 24, 3);
+  const subtitle = wrapText(page.subtitle, 52, 2);
+  const titleTop = 250 - (title.length - 1) * 38;
+  const subtitleTop = titleTop + title.length * 80 + 20;
+  const domain = new URL(siteConfig.siteUrl).hostname;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <rect width="100%" height="100%" fill="${theme.secondary}"/>
+  <circle cx="1080" cy="90" r="300" fill="${theme.primary}" opacity="0.35"/>
+  <circle cx="1160" cy="560" r="160" fill="${theme.primary}" opacity="0.2"/>
+  <rect x="0" y="0" width="16" height="100%" fill="${theme.primary}"/>
+  <text x="80" y="110" font-family="${font}" font-size="30" font-weight="700" letter-spacing="2" fill="${theme.accent}">${escapeXml(siteConfig.businessName.toUpperCase())}</text>
+  ${title.map((line, i) => `<text x="80" y="${titleTop + i * 80}" font-family="${font}" font-size="68" font-weight="800" fill="#ffffff">${escapeXml(line)}</text>`).join('\n  ')}
+  ${subtitle.map((line, i) => `<text x="80" y="${subtitleTop + i * 42}" font-family="${font}" font-size="30" fill="${theme.primaryLight}" opacity="0.85">${escapeXml(line)}</text>`).join('\n  ')}
+  <rect x="80" y="520" width="120" height="6" rx="3" fill="${theme.accent}"/>
+  <text x="80" y="575" font-family="${font}" font-size="28" font-weight="600" fill="#ffffff">${escapeXml(`${domain}  ·  ${siteConfig.phone}`)}</text>
+</svg>`;
+}
+
+/** Break on spaces into at most `maxLines` lines, ending with "…" if the text doesn't fit. */
+export function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = current ? `${current} ${word}` : word;
+    if (next.length <= maxChars || !current) {
+      current = next;
+      continue;
+    }
+    lines.push(current);
+    current = word;
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].replace(/[\s,.;:–—-]+$/, '')}…`;
+  return kept;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,70 @@
+/**
+ * SEO Helpers
+ * -----------
+ * Canonical URLs and Open Graph / Twitter metadata for BaseLayout.
+ * Page paths resolve against siteConfig.siteUrl, so canonical and share
+ * URLs always use the same www / non-www host as the client's old site.
+ */
+
+import { siteConfig } from '../data/siteConfig';
+import { ogImagePath, OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from './ogImage';
+
+export interface SeoProps {
+  title: string;
+  description?: string;
+  canonical?: string; // path or absolute URL; defaults to the page's own path
+  ogType?: 'website' | 'article';
+  image?: string; // path or absolute URL; defaults to the page's generated OG image
+  imageAlt?: string;
+  locale?: string; // og:locale, e.g. "en_US"
+}
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  canonical: string;
+  ogType: 'website' | 'article';
+  image: { url: string; alt: string; width?: number; height?: number };
+  locale: string;
+  siteName: string;
+  noindex: boolean;
+}
+
+/**
+ * A Vercel preview deployment — only ever served on a *.vercel.app URL.
+ * Production is reachable on one too; vercel.json sends X-Robots-Tag:
+ * noindex for those hosts, which covers both.
+ */
+export function isStagingBuild(): boolean {
+  const env = process.env.VERCEL_ENV;
+  return siteConfig.noindexStaging && !!env && env !== 'production';
+}
+
+/** "/contact" → "https://www.example.com/contact/" (query and hash dropped). */
+export function canonicalUrl(pathOrUrl: string): string {
+  const url = new URL(pathOrUrl, siteConfig.siteUrl);
+  // Pages build to directories, so their URLs end in a slash
+  if (!url.pathname.endsWith('/') && !/\.[a-z0-9]+$/i.test(url.pathname)) url.pathname += '/';
+  url.search = '';
+  url.hash = '';
+  return url.href;
+}
+
+/** Everything BaseLayout puts in <head> for a page at `pathname`. */
+export function pageMeta(seo: SeoProps, pathname: string): PageMeta {
+  const generated = !seo.image;
+  return {
+    title: seo.title,
+    description: seo.description || `${siteConfig.businessName} — ${siteConfig.tagline}`,
+    canonical: canonicalUrl(seo.canonical || pathname),
+    ogType: seo.ogType || 'website',
+    image: {
+      url: new URL(seo.image || ogImagePath(pathname), siteConfig.siteUrl).href,
+      alt: seo.imageAlt || seo.title,
+      ...(generated ? { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT } : {}),
+    },
+    locale: seo.locale || siteConfig.locale,
+    siteName: siteConfig.businessName,
+    noindex: isStagingBuild(),
+  };
+}
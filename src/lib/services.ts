@@ -0,0 +1,23 @@
+/**
+ * Service Pages
+ * -------------
+ * Pairs each siteConfig.services entry with its page content from
+ * src/data/services/{slug}.ts for the /services/[slug] route.
+ */
+
+import { siteConfig, type ServiceDetails } from '../data/siteConfig';
+
+type Service = (typeof siteConfig.services)[number];
+
+const detailModules = import.meta.glob<{ default: ServiceDetails }>('../data/services/*.ts', { eager: true });
+
+/** One page per service, in siteConfig order. Fails the build if a service has no content file. */
+export function servicePages(): { service: Service; details: ServiceDetails }[] {
+  return siteConfig.services.map((service) => {
+    const details = detailModules[`../data/services/${service.slug}.ts`]?.default;
+    if (!details) {
+      throw new Error(`Service "${service.slug}" has no page content — add src/data/services/${service.slug}.ts`);
+    }
+    return { service, details };
+  });
+}
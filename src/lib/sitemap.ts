@@ -0,0 +1,83 @@
+/**
+ * Sitemap
+ * -------
+ * Every page route for /sitemap.xml: the static pages under src/pages plus
+ * one /services/{slug}/ page per siteConfig.services entry. lastmod is the
+ * date of the latest git commit touching the files the page is built from.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, readdirSync } from 'node:fs';
+import { siteConfig } from '../data/siteConfig';
+import { canonicalUrl } from './seo';
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string; // YYYY-MM-DD
+}
+
+const PAGES_DIR = 'src/pages';
+const SITE_CONFIG_FILE = 'src/data/siteConfig.ts';
+const PAGE_EXTENSIONS = /\.(astro|md|mdx|html)$/;
+// Not pages anyone should land on from search
+const EXCLUDED_PATHS = new Set(['/404/', '/500/']);
+
+/** Page path → the source files it is built from (paths relative to the project root). */
+function pageSources(): Map<string, string[]> {
+  const sources = new Map<string, string[]>();
+
+  const files = readdirSync(PAGES_DIR, { recursive: true, encoding: 'utf8' }).map((f) => f.replace(/\\/g, '/'));
+  for (const file of files) {
+    // Dynamic routes ([slug].astro) are expanded from siteConfig below
+    if (!PAGE_EXTENSIONS.test(file) || file.includes('[') || file.split('/').some((part) => part.startsWith('_'))) continue;
+    const path = `/${file.replace(PAGE_EXTENSIONS, '').replace(/(^|\/)index$/, '')}/`.replace(/\/+/g, '/');
+    if (!EXCLUDED_PATHS.has(path)) sources.set(path, [`${PAGES_DIR}/${file}`]);
+  }
+
+  // Service pages: the shared template, the service's content file and siteConfig
+  for (const service of siteConfig.services) {
+    const files = [`${PAGES_DIR}/services/[slug].astro`, `src/data/services/${service.slug}.ts`].filter(existsSync);
+    sources.set(`/services/${service.slug}/`, [...files, SITE_CONFIG_FILE]);
+  }
+
+  return sources;
+}
+
+/** Date of the last commit touching any of `files`, or undefined outside a git checkout. */
+function lastCommitDate(files: string[]): string | undefined {
+  try {
+    const date = execFileSync('git', ['--literal-pathspecs', 'log', '-1', '--format=%cI', '--', ...files], { encoding: 'utf8' }).trim();
+    return date ? date.slice(0, 10) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function sitemapEntries(): SitemapEntry[] {
+  return [...pageSources()]
+    .sort(([a], [b]) => (a === '/' ? -1 : b === '/' ? 1 : a.localeCompare(b)))
+    .map(([path, files]) => {
+      const lastmod = lastCommitDate(files);
+      return { loc: canonicalUrl(path), ...(lastmod ? { lastmod } : {}) };
+    });
+}
+
+export function sitemapXml(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) =>
+    [
+      '  <url>',
+      `    <loc>${escapeXml(entry.loc)}</loc>`,
+      ...(entry.lastmod ? [`    <lastmod>${entry.lastmod}</lastmod>`] : []),
+      '  </url>',
+    ].join('\n'),
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,166 @@
+/**
+ * Structured Data
+ * ---------------
+ * schema.org JSON-LD built from siteConfig: LocalBusiness for every page,
+ * Service for service pages and FAQPage for FAQ sections. Rendered by the
+ * JsonLd component, which runs validateStructuredData at build time.
+ */
+
+import { siteConfig, type BusinessHours, type Weekday } from '../data/siteConfig';
+
+export type JsonLdNode = { '@type': string; [key: string]: unknown };
+
+type Service = (typeof siteConfig.services)[number];
+
+const DAY_NAMES: Record<Weekday, string> = {
+  monday: 'Monday', tuesday: 'Tuesday', wednesday: 'Wednesday', thursday: 'Thursday',
+  friday: 'Friday', saturday: 'Saturday', sunday: 'Sunday',
+};
+
+// ── Builders ──
+
+/** The business itself. `siteUrl` (Astro.site) adds url and @id when the site URL is configured. */
+export function localBusinessSchema(siteUrl?: string): JsonLdNode {
+  const primary = siteConfig.locations.find((l) => l.primary) || siteConfig.locations[0];
+  const others = siteConfig.locations.filter((l) => l !== primary);
+  const sameAs = Object.values(siteConfig.socials).filter((url) => /^https?:\/\//.test(url));
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'LocalBusiness',
+    ...(siteUrl ? { '@id': `${siteUrl}#business`, url: siteUrl } : {}),
+    name: siteConfig.businessName,
+    description: siteConfig.tagline,
+    telephone: siteConfig.phone,
+    email: siteConfig.email,
+    address: postalAddress(siteConfig.address),
+    ...(primary?.geo ? { geo: { '@type': 'GeoCoordinates', latitude: primary.geo.lat, longitude: primary.geo.lng } } : {}),
+    ...(sameAs.length > 0 ? { sameAs } : {}),
+    ...openingHours(siteConfig.hours),
+    ...(others.length > 0
+      ? {
+          department: others.map((location) => ({
+            '@type': 'LocalBusiness',
+            name: `${siteConfig.businessName} — ${location.name}`,
+            telephone: location.phone,
+            address: postalAddress(location),
+            ...(location.geo ? { geo: { '@type': 'GeoCoordinates', latitude: location.geo.lat, longitude: location.geo.lng } } : {}),
+            ...openingHours(location.hours || siteConfig.hours),
+          })),
+        }
+      : {}),
+  };
+}
+
+export function serviceSchema(service: Service, siteUrl?: string): JsonLdNode {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Service',
+    name: service.title,
+    serviceType: service.title,
+    description: service.description,
+    ...(siteUrl ? { url: new URL(`/services/${service.slug}/`, siteUrl).href } : {}),
+    provider: {
+      '@type': 'LocalBusiness',
+      ...(siteUrl ? { '@id': `${siteUrl}#business` } : {}),
+      name: siteConfig.businessName,
+      telephone: siteConfig.phone,
+      address: postalAddress(siteConfig.address),
+    },
+    areaServed: { '@type': 'City', name: siteConfig.address.city },
+  };
+}
+
+export function faqPageSchema(faqs: { question: string; answer: string }[]): JsonLdNode {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer },
+    })),
+  };
+}
+
+function postalAddress(address: { street: string; city: string; state: string; zip: string }) {
+  return {
+    '@type': 'PostalAddress',
+    streetAddress: address.street,
+    addressLocality: address.city,
+    addressRegion: address.state,
+    postalCode: address.zip,
+  };
+}
+
+/** One specification per distinct time range, listing every day it applies to. */
+export function openingHours(hours: BusinessHours | null) {
+  if (!hours) return {};
+  const specs = new Map<string, { dayOfWeek: string[]; opens: string; closes: string }>();
+  for (const [day, ranges] of Object.entries(hours.weekly) as [Weekday, BusinessHours['weekly'][Weekday]][]) {
+    for (const range of ranges) {
+      const key = `${range.opens}-${range.closes}`;
+      const spec = specs.get(key) || { dayOfWeek: [], opens: range.opens, closes: range.closes };
+      spec.dayOfWeek.push(DAY_NAMES[day]);
+      specs.set(key, spec);
+    }
+  }
+
+  // Closed all day is opens = closes = 00:00
+  const special = hours.exceptions.flatMap((e) =>
+    (e.hours.length > 0 ? e.hours : [{ opens: '00:00', closes: '00:00' }]).map((range) => ({
+      '@type': 'OpeningHoursSpecification',
+      opens: range.opens,
+      closes: range.closes,
+      validFrom: e.date,
+      validThrough: e.date,
+    })),
+  );
+
+  return {
+    openingHoursSpecification: [...specs.values()].map((spec) => ({ '@type': 'OpeningHoursSpecification', ...spec })),
+    ...(special.length > 0 ? { specialOpeningHoursSpecification: special } : {}),
+  };
+}
+
+// ── Validation ──
+
+// Properties Google requires (or needs to show a rich result) per type
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  LocalBusiness: ['name', 'address'],
+  PostalAddress: ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode'],
+  GeoCoordinates: ['latitude', 'longitude'],
+  OpeningHoursSpecification: ['opens', 'closes'],
+  Service: ['name', 'provider'],
+  FAQPage: ['mainEntity'],
+  Question: ['name', 'acceptedAnswer'],
+  Answer: ['text'],
+};
+
+/** Every missing required property in `node` and its nested nodes, as readable paths. */
+export function validateStructuredData(node: unknown, path = ''): string[] {
+  if (Array.isArray(node)) {
+    // Top-level nodes are named by their @type
+    return node.flatMap((item, i) => validateStructuredData(item, path ? `${path}[${i}]` : ''));
+  }
+  if (!node || typeof node !== 'object') return [];
+
+  const obj = node as Record<string, unknown>;
+  const type = typeof obj['@type'] === 'string' ? obj['@type'] : null;
+  const here = path || type || 'node';
+  const problems = (type ? REQUIRED_PROPERTIES[type] || [] : [])
+    .filter((prop) => isEmpty(obj[prop]))
+    .map((prop) => `${here}.${prop} is missing`);
+
+  for (const [key, value] of Object.entries(obj)) {
+    if (value && typeof value === 'object') problems.push(...validateStructuredData(value, `${here}.${key}`));
+  }
+  return problems;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
@@ -0,0 +1,13 @@
+/**
+ * /form-schema.json
+ * The site's lead forms, built from siteConfig.forms. /api/contact fetches
+ * this to validate submissions, so the form schema has a single source.
+ */
+
+import type { APIRoute } from 'astro';
+import { resolvedForms } from '../lib/forms';
+
+export const GET: APIRoute = () =>
+  new Response(JSON.stringify({ forms: resolvedForms() }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,21 @@
+/**
+ * /og/{slug}.png
+ * Branded Open Graph images, rendered once per page at build time from
+ * siteConfig and the theme colors (see lib/ogImage).
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import sharp from 'sharp';
+import themeCss from '../../styles/theme.css?raw';
+import { ogImageSvg, ogPages, themeColors, type OgPage } from '../../lib/ogImage';
+
+export const getStaticPaths: GetStaticPaths = () =>
+  ogPages().map((page) => ({ params: { slug: page.slug }, props: { page } }));
+
+export const GET: APIRoute = async ({ props }) => {
+  const svg = ogImageSvg((props as { page: OgPage }).page, themeColors(themeCss));
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return new Response(new Uint8Array(png), {
+    headers: { 'Content-Type': 'image/png' },
+  });
+};
@@ -0,0 +1,18 @@
+/**
+ * /robots.txt
+ * Lets crawlers in everywhere but /api/ and points them at the sitemap.
+ * Staging copies are crawlable too: blocking them here would hide the
+ * noindex (X-Robots-Tag from vercel.json, meta tag on preview builds)
+ * that actually keeps them out of search results.
+ */
+
+import type { APIRoute } from 'astro';
+import { canonicalUrl } from '../lib/seo';
+
+export const GET: APIRoute = () => {
+  const body = ['User-agent: *', 'Allow: /', 'Disallow: /api/', '', `Sitemap: ${canonicalUrl('/sitemap.xml')}`];
+
+  return new Response(`${body.join('\n')}\n`, {
+    headers: { 'Content-Type': 'text/plain' },
+  });
+};
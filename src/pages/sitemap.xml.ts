@@ -0,0 +1,13 @@
+/**
+ * /sitemap.xml
+ * Every page on the site with its last-modified date (see lib/sitemap).
+ * Referenced from /robots.txt.
+ */
+
+import type { APIRoute } from 'astro';
+import { sitemapEntries, sitemapXml } from '../lib/sitemap';
+
+export const GET: APIRoute = () =>
+  new Response(sitemapXml(sitemapEntries()), {
+    headers: { 'Content-Type': 'application/xml' },
+  });
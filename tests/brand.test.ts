@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Fetcher } from '../api/_fetcher.js';
+import { applyThemeVariables, brandFonts, fontThemeVariables, type BrandProfile } from '../api/_brand.js';
+import { googleFontsUrl } from '../src/lib/fonts.js';
+
+// Google Fonts' css2 API: 200 for families it serves, 400 for anything else
+const GOOGLE_FONTS = new Set(['Montserrat', 'Open Sans']);
+const googleFonts: Fetcher = async (url) => {
+  const family = new URL(url).searchParams.get('family') || '';
+  return new Response('', { status: GOOGLE_FONTS.has(family) ? 200 : 400 });
+};
+
+function brand(heading_font: string | null, body_font: string | null): BrandProfile {
+  return {
+    colors: [],
+    text_color: null,
+    background_color: null,
+    theme_color: null,
+    heading_font,
+    body_font,
+    logo_url: null,
+    favicon_url: null,
+    stylesheets: [],
+  };
+}
+
+const TEMPLATE_FONTS = { heading: 'Inter', body: 'Inter' };
+
+describe('brandFonts', () => {
+  it('keeps families Google Fonts serves', async () => {
+    expect(await brandFonts(brand('Montserrat', 'Open Sans'), TEMPLATE_FONTS, googleFonts))
+      .toEqual({ heading: 'Montserrat', body: 'Open Sans' });
+  });
+
+  it('falls back to the template font for a family Google Fonts does not have', async () => {
+    expect(await brandFonts(brand('Proxima Nova', 'Open Sans'), TEMPLATE_FONTS, googleFonts))
+      .toEqual({ heading: 'Inter', body: 'Open Sans' });
+    expect(await brandFonts(brand('Proxima Nova', null), TEMPLATE_FONTS, googleFonts)).toBeNull();
+  });
+
+  it('rejects names that are not plain family names without asking Google Fonts', async () => {
+    const asked: string[] = [];
+    const fetcher: Fetcher = async (url) => { asked.push(url); return new Response(''); };
+    expect(await brandFonts(brand("Evil'; } body { x: y", null), TEMPLATE_FONTS, fetcher)).toBeNull();
+    expect(asked).toEqual([]);
+  });
+});
+
+describe('fontThemeVariables', () => {
+  it('escapes quotes and semicolons in family names', () => {
+    const vars = fontThemeVariables({ heading: "Bad'; color: red", body: 'Open Sans' });
+    expect(vars['--font-heading']).toBe("'Bad\\27 \\3b  color: red', system-ui, sans-serif");
+    expect(vars['--font-body']).toBe("'Open Sans', system-ui, sans-serif");
+
+    const css = applyThemeVariables(':root {\n  --font-heading: Inter;\n  --font-body: Inter;\n}', vars);
+    expect(css).toContain("--font-body: 'Open Sans', system-ui, sans-serif;");
+  });
+});
+
+describe('googleFontsUrl', () => {
+  it('requests each family once', () => {
+    expect(googleFontsUrl({ heading: 'Open Sans', body: 'Open Sans' }))
+      .toBe('https://fonts.googleapis.com/css2?family=Open+Sans:wght@400;500;600;700;800&display=swap');
+  });
+});
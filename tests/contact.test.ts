@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { FormSchema } from '../src/data/siteConfigSchema.js';
+import handler from '../api/contact.js';
+
+/**
+ * POST /api/contact spam filtering, validation and delivery. The
+ * submit_website_lead() RPC and the site's /form-schema.json are stand-ins.
+ */
+
+const rpc = vi.hoisted(() => ({ calls: [] as Record<string, unknown>[], result: { data: 'stored', error: null } as any }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    rpc: async (name: string, params: Record<string, unknown>) => {
+      rpc.calls.push({ name, ...params });
+      return rpc.result;
+    },
+  }),
+}));
+
+const FORM: FormSchema = {
+  id: 'quote',
+  kind: 'quote',
+  title: 'Request a quote',
+  submitLabel: 'Send',
+  fields: [
+    { name: 'name', label: 'Name', type: 'text', required: true },
+    { name: 'email', label: 'Email', type: 'email', required: true },
+    { name: 'service', label: 'Service', type: 'select', options: ['Drain Cleaning', 'Water Heaters'] },
+  ],
+};
+
+const WEBHOOK_URL = 'https://hooks.example/leads';
+let webhooks: unknown[] = [];
+
+function post(body: Record<string, unknown>, contentType = 'application/json') {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    location: undefined as string | undefined,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+    redirect(code: number, url: string) { this.statusCode = code; this.location = url; return this; },
+    end() { return this; },
+  };
+  const req = {
+    method: 'POST',
+    headers: {
+      host: 'www.summit-plumbing.example',
+      'content-type': contentType,
+      referer: 'https://www.summit-plumbing.example/contact/',
+      'x-forwarded-for': '203.0.113.7',
+    },
+    body,
+  };
+  return Promise.resolve(handler(req as unknown as VercelRequest, res as unknown as VercelResponse)).then(() => res);
+}
+
+const startedAt = (msAgo: number) => String(Date.now() - msAgo);
+
+describe('POST /api/contact', () => {
+  beforeAll(() => {
+    vi.stubEnv('SUPABASE_URL', 'https://supabase.example');
+    vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key');
+    vi.stubEnv('GITHUB_REPO', 'summit-plumbing');
+    vi.stubEnv('LEAD_WEBHOOK_URL', WEBHOOK_URL);
+    vi.stubGlobal('fetch', async (url: string, init?: RequestInit) => {
+      if (url === 'https://www.summit-plumbing.example/form-schema.json') return Response.json({ forms: [FORM] });
+      if (url === WEBHOOK_URL) {
+        webhooks.push(JSON.parse(String(init?.body)));
+        return new Response(null, { status: 204 });
+      }
+      throw new Error(`Unexpected request: ${url}`);
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    rpc.calls = [];
+    rpc.result = { data: 'stored', error: null };
+    webhooks = [];
+  });
+
+  const lead = { form_id: 'quote', name: 'Dana Reyes', email: 'dana@example.com', service: 'Water Heaters' };
+
+  it('stores a valid lead and forwards it to the webhook', async () => {
+    const res = await post({ ...lead, _started: startedAt(10_000) });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ success: true });
+    expect(rpc.calls).toMatchObject([{
+      name: 'submit_website_lead',
+      p_github_repo: 'summit-plumbing',
+      p_form_id: 'quote',
+      p_fields: { name: 'Dana Reyes', email: 'dana@example.com', service: 'Water Heaters' },
+    }]);
+    expect(webhooks).toMatchObject([{ event: 'lead.created', form_id: 'quote' }]);
+  });
+
+  it('reports invalid and missing fields', async () => {
+    const res = await post({ form_id: 'quote', email: 'not-an-email', service: 'Roofing', _started: startedAt(10_000) });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.errors).toEqual({
+      name: 'Name is required',
+      email: 'Please enter a valid email address',
+      service: 'Please choose one of the listed options',
+    });
+    expect(rpc.calls).toEqual([]);
+  });
+
+  it('rejects an unknown form', async () => {
+    const res = await post({ ...lead, form_id: 'newsletter', _started: startedAt(10_000) });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toBe('Unknown form');
+  });
+
+  it('pretends to accept a filled-in honeypot', async () => {
+    const res = await post({ ...lead, _website: 'https://spam.example', _started: startedAt(10_000) });
+
+    expect(res.body).toEqual({ success: true });
+    expect(rpc.calls).toEqual([]);
+    expect(webhooks).toEqual([]);
+  });
+
+  it('pretends to accept a form submitted faster than a person can fill it in', async () => {
+    const res = await post({ ...lead, _started: startedAt(500) });
+
+    expect(res.body).toEqual({ success: true });
+    expect(rpc.calls).toEqual([]);
+  });
+
+  it('accepts a plain form post without a start time and redirects back to the form', async () => {
+    const res = await post({ ...lead, _started: '' }, 'application/x-www-form-urlencoded');
+
+    expect(res.statusCode).toBe(303);
+    expect(res.location).toBe('/contact/#quote-sent');
+    expect(rpc.calls).toHaveLength(1);
+  });
+
+  it('answers 429 when the IP is over the rate limit, without forwarding', async () => {
+    rpc.result = { data: 'rate_limited', error: null };
+    const res = await post({ ...lead, _started: startedAt(10_000) });
+
+    expect(res.statusCode).toBe(429);
+    expect(webhooks).toEqual([]);
+  });
+
+  it('does not forward a lead when the rate-limit check fails', async () => {
+    rpc.result = { data: null, error: { message: 'connection refused' } };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const res = await post({ ...lead, _started: startedAt(10_000) });
+
+    expect(res.statusCode).toBe(500);
+    expect(webhooks).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeForms } from '../api/_forms.js';
+import type { PageData, ScrapedForm, ScrapedFormField } from '../api/_scraper.js';
+
+/** Mapping scraped forms to siteConfig.forms: classification, field mapping and merging. */
+
+const ORIGIN = 'https://www.summit-plumbing.example';
+
+function field(name: string, type = 'text', overrides: Partial<ScrapedFormField> = {}): ScrapedFormField {
+  return { name, type, placeholder: '', label: null, required: false, options: [], ...overrides };
+}
+
+function form(fields: ScrapedFormField[], overrides: Partial<ScrapedForm> = {}): ScrapedForm {
+  return { action: '', method: 'post', heading: null, submit_label: null, fields, ...overrides };
+}
+
+function page(path: string, forms: ScrapedForm[]): PageData {
+  return { url: `${ORIGIN}${path}`, forms } as Partial<PageData> as PageData;
+}
+
+describe('analyzeForms', () => {
+  it('maps a contact form to standard fields and requires a reply field', () => {
+    const [contact, ...rest] = analyzeForms([
+      page('/contact/', [
+        form([
+          field('your-name', 'text', { label: 'Your Name *', required: true }),
+          field('your-email', 'email', { label: 'Email' }),
+          field('phone-number', 'tel', { placeholder: '(555) 555-0100' }),
+          field('your-message', 'textarea', { label: 'How can we help?' }),
+          field('_wpnonce', 'hidden'),
+          field('website-honeypot'),
+        ], { submit_label: 'Submit' }),
+      ]),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(contact).toMatchObject({ id: 'contact', kind: 'contact', submitLabel: 'Send Message' });
+    expect(contact.fields).toEqual([
+      { name: 'name', label: 'Full Name', type: 'text', required: true, width: 'half' },
+      { name: 'email', label: 'Email Address', type: 'email', required: true, width: 'half' },
+      { name: 'phone', label: 'Phone Number', type: 'tel', placeholder: '(555) 555-0100', width: 'half' },
+      { name: 'message', label: 'Message', type: 'textarea' },
+    ]);
+  });
+
+  it('classifies quote and booking forms and orders them quote first', () => {
+    const forms = analyzeForms([
+      page('/book/', [form([field('email', 'email'), field('visit', 'date', { label: 'Day' })])]),
+      page('/', [form([field('email', 'email'), field('details', 'textarea')], { heading: 'Get a free estimate', submit_label: 'Send My Request' })]),
+    ]);
+
+    expect(forms.map((f) => f.kind)).toEqual(['quote', 'booking']);
+    expect(forms[0].submitLabel).toBe('Send My Request');
+    expect(forms[1].fields.map((f) => f.name)).toEqual(['email', 'preferred_date']);
+  });
+
+  it('drops search, login, newsletter and no-reply forms', () => {
+    expect(analyzeForms([
+      page('/', [
+        form([field('s', 'search'), field('q')]),
+        form([field('user', 'text'), field('pass', 'password')]),
+        form([field('email', 'email')], { submit_label: 'Subscribe' }),
+        form([field('name'), field('comments', 'textarea')]),
+      ]),
+    ])).toEqual([]);
+  });
+
+  it('folds radio groups into one field and points service choices at the services list', () => {
+    const [contact] = analyzeForms([
+      page('/contact/', [
+        form([
+          field('email', 'email'),
+          field('contact_pref', 'radio', { options: ['Call me'] }),
+          field('contact_pref', 'radio', { options: ['Email me'], required: true }),
+          field('service', 'select', { label: 'Service', options: ['Drains', 'Water Heaters'] }),
+          field('newsletter', 'checkbox', { options: ['Send me offers'] }),
+        ]),
+      ]),
+    ]);
+
+    expect(contact.fields.slice(1)).toEqual([
+      { name: 'contact_pref', label: 'Contact pref', type: 'radio', options: ['Call me', 'Email me'], required: true },
+      { name: 'service', label: 'Service Interested In', type: 'select', optionsFrom: 'services' },
+      { name: 'newsletter', label: 'Send me offers', type: 'checkbox' },
+    ]);
+  });
+
+  it('merges forms of the same kind across pages', () => {
+    const forms = analyzeForms([
+      page('/', [form([field('email', 'email'), field('message', 'textarea')])]),
+      page('/contact/', [form([field('email', 'email'), field('zip', 'text', { label: 'ZIP' })])]),
+    ]);
+
+    expect(forms).toHaveLength(1);
+    expect(forms[0].fields.map((f) => f.name)).toEqual(['email', 'message', 'zip']);
+  });
+});
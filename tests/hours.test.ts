@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import * as cheerio from 'cheerio';
+import { extractHoursFromHtml, extractPageData } from '../api/_scraper.js';
+import { formatRanges, groupWeeklyHours, isOpenNow } from '../src/lib/hours.js';
+import type { BusinessHours } from '../src/data/siteConfigSchema.js';
+
+function hoursFrom(lines: string[]) {
+  return extractHoursFromHtml(cheerio.load(`<ul>${lines.map((line) => `<li>${line}</li>`).join('')}</ul>`));
+}
+
+describe('opening hours in page text', () => {
+  it('reads 12-hour times, day ranges and closed days', () => {
+    expect(hoursFrom([
+      'Mon – Fri: 8am – 5pm',
+      'Saturday: 9:00 a.m. to 1:00 p.m.',
+      'Sunday: Closed',
+    ])?.weekly).toEqual({
+      monday: [{ opens: '08:00', closes: '17:00' }],
+      tuesday: [{ opens: '08:00', closes: '17:00' }],
+      wednesday: [{ opens: '08:00', closes: '17:00' }],
+      thursday: [{ opens: '08:00', closes: '17:00' }],
+      friday: [{ opens: '08:00', closes: '17:00' }],
+      saturday: [{ opens: '09:00', closes: '13:00' }],
+      sunday: [],
+    });
+  });
+
+  it('reads 24-hour times and split shifts', () => {
+    const weekly = hoursFrom([
+      'Monday - Thursday 07:30 - 18:00',
+      'Friday 07:30-12:00, 13:00-16:30',
+    ])?.weekly;
+    expect(weekly?.monday).toEqual([{ opens: '07:30', closes: '18:00' }]);
+    expect(weekly?.friday).toEqual([{ opens: '07:30', closes: '12:00' }, { opens: '13:00', closes: '16:30' }]);
+    expect(weekly?.saturday).toEqual([]);
+  });
+
+  it('treats bare hours as a daytime schedule', () => {
+    expect(hoursFrom(['Mon-Fri 8-5', 'Sat 10-2'])?.weekly).toMatchObject({
+      monday: [{ opens: '08:00', closes: '17:00' }],
+      saturday: [{ opens: '10:00', closes: '14:00' }],
+    });
+  });
+
+  it('wraps day ranges across the weekend and keeps closes past midnight', () => {
+    const weekly = hoursFrom(['Fri - Sun: 5pm - 2am', 'Tue, Wed: 4pm-11pm'])?.weekly;
+    expect(weekly).toMatchObject({
+      friday: [{ opens: '17:00', closes: '02:00' }],
+      saturday: [{ opens: '17:00', closes: '02:00' }],
+      sunday: [{ opens: '17:00', closes: '02:00' }],
+      tuesday: [{ opens: '16:00', closes: '23:00' }],
+      wednesday: [{ opens: '16:00', closes: '23:00' }],
+      monday: [],
+    });
+  });
+
+  it('reads "open 24 hours" and day groups', () => {
+    expect(hoursFrom(['Weekdays: open 24 hours', 'Weekends: 10am-4pm'])?.weekly).toMatchObject({
+      wednesday: [{ opens: '00:00', closes: '23:59' }],
+      sunday: [{ opens: '10:00', closes: '16:00' }],
+    });
+  });
+
+  it('ignores a single day mentioned in prose', () => {
+    expect(hoursFrom(['Open Monday 9-5 for walk-ins'])).toBeNull();
+  });
+});
+
+describe('opening hours in JSON-LD', () => {
+  it('reads schema.org openingHours codes', () => {
+    const html = `<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Plumber',
+      name: 'Summit Plumbing',
+      address: { '@type': 'PostalAddress', streetAddress: '2150 Pearl Street', addressLocality: 'Boulder' },
+      openingHours: 'Mo-Fr 08:00-17:00, Sa 09:00-12:00',
+    })}</script><main><p>Plumbing</p></main>`;
+    const page = extractPageData(html, 'https://www.summit-plumbing.example/', 'https://www.summit-plumbing.example');
+    expect(page.opening_hours?.weekly).toMatchObject({
+      friday: [{ opens: '08:00', closes: '17:00' }],
+      saturday: [{ opens: '09:00', closes: '12:00' }],
+      sunday: [],
+    });
+  });
+});
+
+describe('isOpenNow', () => {
+  // Denver is UTC-6 in October; 2026-10-16 is a Friday
+  const hours: BusinessHours = {
+    timeZone: 'America/Denver',
+    weekly: {
+      monday: [{ opens: '08:00', closes: '17:00' }],
+      tuesday: [{ opens: '08:00', closes: '17:00' }],
+      wednesday: [{ opens: '08:00', closes: '17:00' }],
+      thursday: [{ opens: '08:00', closes: '17:00' }],
+      friday: [{ opens: '17:00', closes: '02:00' }],
+      saturday: [],
+      sunday: [],
+    },
+    exceptions: [{ date: '2026-10-19', label: 'Staff training', hours: [] }],
+  };
+
+  it('opens and closes on the hour in the business time zone', () => {
+    expect(isOpenNow(hours, new Date('2026-10-15T13:59:00Z'))).toBe(false); // Thu 07:59
+    expect(isOpenNow(hours, new Date('2026-10-15T14:00:00Z'))).toBe(true); // Thu 08:00
+    expect(isOpenNow(hours, new Date('2026-10-15T23:00:00Z'))).toBe(false); // Thu 17:00
+  });
+
+  it("keeps yesterday's late range open past midnight", () => {
+    expect(isOpenNow(hours, new Date('2026-10-16T23:30:00Z'))).toBe(true); // Fri 17:30
+    expect(isOpenNow(hours, new Date('2026-10-17T07:30:00Z'))).toBe(true); // Sat 01:30
+    expect(isOpenNow(hours, new Date('2026-10-17T08:00:00Z'))).toBe(false); // Sat 02:00
+  });
+
+  it('follows exceptions over the weekly hours', () => {
+    expect(isOpenNow(hours, new Date('2026-10-19T16:00:00Z'))).toBe(false); // Mon 10:00, closed for training
+  });
+});
+
+describe('weekly hours display', () => {
+  it('groups consecutive days with the same hours', () => {
+    expect(groupWeeklyHours({
+      monday: [{ opens: '08:00', closes: '17:00' }],
+      tuesday: [{ opens: '08:00', closes: '17:00' }],
+      wednesday: [{ opens: '08:00', closes: '17:00' }],
+      thursday: [{ opens: '08:00', closes: '17:00' }],
+      friday: [{ opens: '08:00', closes: '12:30' }],
+      saturday: [],
+      sunday: [],
+    })).toEqual([
+      { days: 'Mon – Thu', hours: '8:00 AM – 5:00 PM' },
+      { days: 'Fri', hours: '8:00 AM – 12:30 PM' },
+      { days: 'Sat – Sun', hours: 'Closed' },
+    ]);
+    expect(formatRanges([{ opens: '00:00', closes: '23:59' }])).toBe('Open 24 hours');
+  });
+});
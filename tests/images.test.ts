@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { Fetcher } from '../api/_fetcher.js';
+import { downloadHarvestedImages, harvestImages, restoreImageUrls, rewriteImageUrls, sanitizeSvg, type HarvestedImage } from '../api/_images.js';
+
+function serve(body: string, contentType: string): Fetcher {
+  return async () => new Response(body, { headers: { 'Content-Type': contentType } });
+}
+
+const HOSTILE_SVG = `<?xml version="1.0"?>
+<!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="120" height="60" onload="alert(1)">
+  <script>alert(document.cookie)</script>
+  <style>@import url(https://evil.example/x.css); .a { fill: url(#grad); background: url(https://evil.example/t.png); }</style>
+  <defs><linearGradient id="grad"><stop offset="0" stop-color="#0a5"/></linearGradient></defs>
+  <a href="javascript:alert(2)"><rect class="a" width="120" height="60" onclick="alert(3)"/></a>
+  <use xlink:href="#grad"/>
+  <image href="https://evil.example/track.png" width="10" height="10"/>
+  <set attributeName="href" to="javascript:alert(4)"/>
+  <foreignObject><iframe src="https://evil.example"></iframe></foreignObject>
+  <text x="10" y="40" style="fill: url('#grad')">Summit</text>
+</svg>`;
+
+describe('sanitizeSvg', () => {
+  it('strips scripts, handlers and external references but keeps the drawing', () => {
+    const svg = sanitizeSvg(Buffer.from(HOSTILE_SVG))!.toString('utf-8');
+
+    expect(svg).not.toMatch(/<script|onload|onclick|javascript:|evil\.example|foreignObject|<set|ENTITY/i);
+    expect(svg).toContain('<rect class="a" width="120" height="60"/>');
+    expect(svg).toContain('xlink:href="#grad"');
+    expect(svg).toContain('style="fill: url(&apos;#grad&apos;)"');
+    expect(svg).toContain('.a { fill: url(#grad); background: none; }');
+    expect(svg).toContain('>Summit</text>');
+  });
+
+  it('rejects documents without an <svg> root', () => {
+    expect(sanitizeSvg(Buffer.from('<html><body><svg'))).toBeNull();
+  });
+});
+
+describe('harvestImages', () => {
+  it('commits the sanitized SVG, hashed by its sanitized contents', async () => {
+    const { images, files } = await harvestImages(
+      [{ src: 'https://summit-plumbing.example/logo.svg', alt: 'Summit Plumbing', filename: 'logo.svg' }],
+      [],
+      serve(HOSTILE_SVG, 'image/svg+xml'),
+    );
+
+    expect(images).toHaveLength(1);
+    expect(images[0]).toMatchObject({ mime_type: 'image/svg+xml', width: 120, height: 60 });
+    const committed = Buffer.from(files[0].content, 'base64').toString('utf-8');
+    expect(committed).not.toMatch(/<script|onload/);
+    expect(images[0].bytes).toBe(Buffer.byteLength(committed));
+  });
+});
+
+describe('downloadHarvestedImages', () => {
+  it('re-downloads each image to its manifest path, trying every source', async () => {
+    const { images } = await harvestImages(
+      [{ src: 'https://summit-plumbing.example/logo.svg', alt: 'Summit Plumbing', filename: 'logo.svg' }],
+      [],
+      serve(HOSTILE_SVG, 'image/svg+xml'),
+    );
+    const moved = { ...images[0], sources: ['https://summit-plumbing.example/gone.svg', ...images[0].sources] };
+    const fetcher: Fetcher = async (url) => (url.endsWith('/gone.svg')
+      ? new Response('Not found', { status: 404 })
+      : new Response(HOSTILE_SVG, { headers: { 'Content-Type': 'image/svg+xml' } }));
+
+    const { files, missing } = await downloadHarvestedImages([moved], fetcher);
+    expect(missing).toEqual([]);
+    expect(files).toEqual([{ path: moved.path, content: expect.any(String), encoding: 'base64' }]);
+    expect(Buffer.from(files[0].content, 'base64').toString('utf-8')).not.toContain('<script');
+
+    const offline = await downloadHarvestedImages([moved], async () => new Response('', { status: 503 }));
+    expect(offline.missing).toEqual([moved]);
+  });
+});
+
+describe('rewriteImageUrls', () => {
+  const image = (name: string, sources: string[]): HarvestedImage => ({
+    hash: name,
+    path: `public/images/${name}`,
+    public_path: `/images/${name}`,
+    sources,
+    alt: '',
+    width: null,
+    height: null,
+    mime_type: 'image/jpeg',
+    bytes: 1,
+  });
+
+  it('replaces whole URLs only, longest first', () => {
+    const images = [
+      image('a-1111.jpg', ['https://old.example/a.jpg']),
+      image('a-large-2222.jpg', ['https://old.example/a.jpg/large']),
+    ];
+    const content = [
+      '<img src="https://old.example/a.jpg" alt="">',
+      '<img srcset="https://old.example/a.jpg 1x, https://old.example/a.jpg/large 2x">',
+      '<img src="https://old.example/a.jpg?w=300">',
+      "const hero = 'https://old.example/a.jpg.webp';",
+      'background: url(https://old.example/a.jpg);',
+    ].join('\n');
+
+    expect(rewriteImageUrls(content, images).split('\n')).toEqual([
+      '<img src="/images/a-1111.jpg" alt="">',
+      '<img srcset="/images/a-1111.jpg 1x, /images/a-large-2222.jpg 2x">',
+      '<img src="https://old.example/a.jpg?w=300">',
+      "const hero = 'https://old.example/a.jpg.webp';",
+      'background: url(/images/a-1111.jpg);',
+    ]);
+  });
+
+  it('points missing images back at their original URL', () => {
+    const missing = image('a-1111.jpg', ['https://old.example/a.jpg', 'https://old.example/a-copy.jpg']);
+    expect(restoreImageUrls('<img src="/images/a-1111.jpg">', [missing])).toBe('<img src="https://old.example/a.jpg">');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { dedupeLocations, extractLocations, type BusinessLocation } from '../api/_scraper.js';
+
+/** Business locations from JSON-LD, and merging the same location found on several pages. */
+
+const PAGE = 'https://www.summit-plumbing.example/locations/';
+
+function location(overrides: Partial<BusinessLocation>): BusinessLocation {
+  return {
+    name: null,
+    street: null,
+    city: null,
+    state: null,
+    zip: null,
+    country: null,
+    phone: null,
+    hours: null,
+    geo: null,
+    source_page: PAGE,
+    ...overrides,
+  };
+}
+
+describe('extractLocations', () => {
+  it('reads a LocalBusiness address with its phone, hours and geo', () => {
+    const [office] = extractLocations([
+      {
+        '@context': 'https://schema.org',
+        '@type': 'Plumber',
+        name: 'Summit Plumbing',
+        telephone: '(512) 555-0100',
+        openingHours: 'Mo-Fr 08:00-17:00',
+        geo: { '@type': 'GeoCoordinates', latitude: '30.2672', longitude: -97.7431 },
+        address: {
+          '@type': 'PostalAddress',
+          streetAddress: '100 Congress Ave',
+          addressLocality: 'Austin',
+          addressRegion: 'TX',
+          postalCode: '78701',
+          addressCountry: { '@type': 'Country', name: 'US' },
+        },
+      },
+    ], PAGE);
+
+    expect(office).toMatchObject({
+      name: 'Summit Plumbing',
+      street: '100 Congress Ave',
+      city: 'Austin',
+      state: 'TX',
+      zip: '78701',
+      country: 'US',
+      phone: '(512) 555-0100',
+      geo: { lat: 30.2672, lng: -97.7431 },
+      source_page: PAGE,
+    });
+    expect(office.hours?.weekly.monday).toEqual([{ opens: '08:00', closes: '17:00' }]);
+  });
+
+  it('finds every location in a graph, including nested and bare addresses', () => {
+    const locations = extractLocations([
+      {
+        '@graph': [
+          {
+            '@type': 'Organization',
+            name: 'Summit Plumbing',
+            department: [
+              { '@type': 'Plumber', name: 'Summit North', address: { streetAddress: '9 Oak St', addressLocality: 'Round Rock' } },
+              { '@type': 'Plumber', name: 'Summit South', address: [{ '@type': 'PostalAddress', streetAddress: '4 Elm Rd', addressLocality: 'Buda' }] },
+            ],
+          },
+          { '@type': 'PostalAddress', streetAddress: '1 Main St', addressLocality: 'Kyle', telephone: '512-555-0199' },
+        ],
+      },
+    ], PAGE);
+
+    expect(locations.map((l) => [l.name, l.street, l.city, l.phone])).toEqual([
+      ['Summit North', '9 Oak St', 'Round Rock', null],
+      ['Summit South', '4 Elm Rd', 'Buda', null],
+      [null, '1 Main St', 'Kyle', '512-555-0199'],
+    ]);
+  });
+
+  it('ignores nodes without a postal address and unreadable geo', () => {
+    expect(extractLocations([{ '@type': 'WebPage', name: 'Locations' }, null, 'text'], PAGE)).toEqual([]);
+
+    const [office] = extractLocations([
+      { '@type': 'Store', name: 'Shop', geo: { latitude: 'n/a' }, address: { streetAddress: '2 Pine Ln' } },
+    ], PAGE);
+    expect(office.geo).toBeNull();
+  });
+});
+
+describe('dedupeLocations', () => {
+  it('merges the same street address and fills gaps from later duplicates', () => {
+    const merged = dedupeLocations([
+      location({ name: 'Summit Plumbing', street: '100 Congress Ave.', zip: '78701' }),
+      location({ name: 'Other name', street: '100 congress ave', zip: '78701', phone: '512-555-0100', city: 'Austin' }),
+      location({ street: '100 Congress Ave', zip: '78702' }),
+    ]);
+
+    expect(merged).toEqual([
+      location({ name: 'Summit Plumbing', street: '100 Congress Ave.', zip: '78701', phone: '512-555-0100', city: 'Austin' }),
+      location({ street: '100 Congress Ave', zip: '78702' }),
+    ]);
+  });
+
+  it('keys locations without a street by name and city, and drops empty ones', () => {
+    const merged = dedupeLocations([
+      location({ name: 'Summit North', city: 'Round Rock' }),
+      location({ name: 'SUMMIT NORTH', city: 'Round Rock', state: 'TX' }),
+      location({ name: 'Summit North', city: 'Buda' }),
+      location({ phone: '512-555-0100' }),
+    ]);
+
+    expect(merged.map((l) => [l.name, l.city, l.state])).toEqual([
+      ['Summit North', 'Round Rock', 'TX'],
+      ['Summit North', 'Buda', null],
+    ]);
+  });
+
+  it('does not mutate its input', () => {
+    const first = location({ street: '1 Main St' });
+    dedupeLocations([first, location({ street: '1 Main St', phone: '512-555-0199' })]);
+    expect(first.phone).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { themeColors, wrapText } from '../src/lib/ogImage.js';
+
+/** Share-image text wrapping and reading brand colors from theme.css. */
+
+describe('wrapText', () => {
+  it('breaks on spaces without exceeding the line length', () => {
+    expect(wrapText('Emergency plumbing repairs across the greater Austin area', 24, 3)).toEqual([
+      'Emergency plumbing',
+      'repairs across the',
+      'greater Austin area',
+    ]);
+  });
+
+  it('collapses runs of whitespace', () => {
+    expect(wrapText('  Drain \n cleaning\t ', 24, 3)).toEqual(['Drain cleaning']);
+    expect(wrapText('   ', 24, 3)).toEqual([]);
+  });
+
+  it('keeps a word longer than the line on a line of its own', () => {
+    expect(wrapText('Call Supercalifragilisticexpialidocious now', 10, 3)).toEqual([
+      'Call',
+      'Supercalifragilisticexpialidocious',
+      'now',
+    ]);
+  });
+
+  it('ends with an ellipsis when the text needs more lines, trimming trailing punctuation', () => {
+    expect(wrapText('Fast, friendly, licensed, insured plumbers', 16, 2)).toEqual([
+      'Fast, friendly,',
+      'licensed…',
+    ]);
+  });
+});
+
+describe('themeColors', () => {
+  it('reads the brand colors as hex', () => {
+    const css = `:root {
+  --color-primary-dark: #1d4ed8;
+  --color-primary: #0F766E;
+  --color-primary-light:#ccfbf1;
+  --color-secondary: #111;
+  --color-accent: #f97316cc;
+}`;
+    expect(themeColors(css)).toEqual({
+      primary: '#0F766E',
+      primaryLight: '#ccfbf1',
+      secondary: '#111',
+      accent: '#f97316cc',
+    });
+  });
+
+  it('falls back to the defaults for missing or non-hex colors', () => {
+    const css = `:root {
+  --color-primary: oklch(0.6 0.2 250);
+  --color-accent: var(--brand-orange);
+}`;
+    expect(themeColors(css)).toEqual({
+      primary: '#2563eb',
+      primaryLight: '#dbeafe',
+      secondary: '#0f172a',
+      accent: '#f59e0b',
+    });
+  });
+});
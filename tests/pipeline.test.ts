@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { createReplayFetcher } from '../api/_fetcher.js';
+import type { GenerationClient } from '../api/_generate-prompts.js';
+import { generateConfig, type GeneratedConfig } from '../api/_generate-config.js';
+import { generatePage } from '../api/_generate-page.js';
+import type { LlmCaller } from '../api/_usage.js';
+import intakeHandler from '../api/client-intake.js';
+import editHandler from '../api/edit.js';
+
+/**
+ * A client's trip through the site pipeline — intake brief, config, page
+ * generation and an editor change — run offline: model replies come from
+ * tests/fixtures/llm/summit-plumbing (LLM_FIXTURES_MODE=replay), template
+ * files from recorded GitHub responses in tests/fixtures/github/summit-plumbing,
+ * and Supabase is an in-memory stand-in.
+ */
+
+// ── In-memory Supabase ──
+
+type Row = Record<string, any>;
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Row[]>, nextId: 1 }));
+
+vi.mock('@supabase/supabase-js', () => {
+  class Query implements PromiseLike<{ data: any; error: null; count?: number }> {
+    private filters: ((row: Row) => boolean)[] = [];
+    private inserted: Row[] | null = null;
+    private window: [number, number] | null = null;
+    private mode: 'many' | 'single' | 'maybe' = 'many';
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    insert(rows: Row | Row[]) {
+      this.inserted = (Array.isArray(rows) ? rows : [rows]).map((row) => ({
+        id: db.nextId++,
+        created_at: new Date().toISOString(),
+        ...row,
+      }));
+      return this;
+    }
+    eq(column: string, value: unknown) { return this.where((row) => row[column] === value); }
+    in(column: string, values: unknown[]) { return this.where((row) => values.includes(row[column])); }
+    gte(column: string, value: string) { return this.where((row) => row[column] >= value); }
+    lt(column: string, value: string) { return this.where((row) => row[column] < value); }
+    order() { return this; }
+    range(from: number, to: number) { this.window = [from, to]; return this; }
+    maybeSingle() { this.mode = 'maybe'; return this; }
+    single() { this.mode = 'single'; return this; }
+
+    then<T1, T2>(onFulfilled?: (value: any) => T1 | PromiseLike<T1>, onRejected?: (reason: any) => T2 | PromiseLike<T2>) {
+      return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+    }
+
+    private where(filter: (row: Row) => boolean) {
+      this.filters.push(filter);
+      return this;
+    }
+
+    private run() {
+      const table = (db.tables[this.table] ||= []);
+      if (this.inserted) {
+        table.push(...this.inserted);
+        return { data: this.inserted, error: null };
+      }
+      let rows = table.filter((row) => this.filters.every((filter) => filter(row)));
+      if (this.window) rows = rows.slice(this.window[0], this.window[1] + 1);
+      if (this.mode === 'many') return { data: rows, error: null };
+      if (rows.length === 0 && this.mode === 'single') return { data: null, error: { message: 'No rows found' } };
+      return { data: rows[0] ?? null, error: null };
+    }
+  }
+
+  return {
+    createClient: () => ({
+      from: (table: string) => new Query(table),
+      auth: {
+        getUser: async () => ({ data: { user: { id: 'user-1', email: 'editor@bochi-web.example' } }, error: null }),
+      },
+    }),
+  };
+});
+
+// ── Fixtures ──
+
+const LLM_FIXTURES = fileURLToPath(new URL('./fixtures/llm/summit-plumbing', import.meta.url));
+const GITHUB_FIXTURES = fileURLToPath(new URL('./fixtures/github/summit-plumbing', import.meta.url));
+
+const ORIGIN = 'https://www.summit-plumbing.example';
+
+const SCRAPED_DATA = {
+  source_url: ORIGIN,
+  global: {
+    phone_numbers: ['(303) 555-0142'],
+    email_addresses: ['office@summit-plumbing.example'],
+    physical_address: '2150 Pearl Street, Boulder, CO 80302',
+    social_links: ['https://www.facebook.com/summitplumbingboulder'],
+  },
+  pages: [
+    {
+      url: `${ORIGIN}/`,
+      slug: 'index',
+      title: 'Boulder Plumbers | Summit Plumbing',
+      meta_description: 'Licensed plumbers serving Boulder since 1998.',
+      headings: [{ level: 1, text: "Boulder's Trusted Plumbers" }],
+      content_markdown: "# Boulder's Trusted Plumbers\n\nFamily-owned and licensed since 1998.\n\n- Same-day emergency service\n- Upfront, flat-rate pricing",
+    },
+    {
+      url: `${ORIGIN}/services/drain-cleaning`,
+      slug: 'services-drain-cleaning',
+      title: 'Drain Cleaning | Summit Plumbing',
+      meta_description: 'Hydro-jetting and camera inspections for stubborn clogs.',
+      headings: [{ level: 1, text: 'Drain Cleaning' }],
+      content_markdown: '# Drain Cleaning\n\nWe clear kitchen, bath and main sewer lines with hydro-jetting, then camera-inspect the line so the clog stays gone.',
+    },
+  ],
+};
+
+// ── Helpers ──
+
+function invoke(handler: (req: VercelRequest, res: VercelResponse) => unknown, body: unknown) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+    setHeader() { return this; },
+    end() { return this; },
+  };
+  const req = { method: 'POST', headers: { authorization: 'Bearer test-session' }, body };
+  return Promise.resolve(handler(req as unknown as VercelRequest, res as unknown as VercelResponse)).then(() => res);
+}
+
+function usageRows(): Row[] {
+  return db.tables.ai_website_llm_usage || [];
+}
+
+// ── Pipeline ──
+
+describe('site pipeline replayed from recorded model replies', () => {
+  const supabase = createClient('https://supabase.example', 'anon-key');
+  const client: GenerationClient = {
+    id: 'client-summit',
+    client_name: 'Summit Plumbing',
+    github_owner: 'bochi-web',
+    github_repo: 'summit-plumbing',
+    site_config: null,
+  };
+  const caller: LlmCaller = {
+    supabase,
+    endpoint: '/api/generation-resume',
+    clientId: client.id,
+    userEmail: 'editor@bochi-web.example',
+  };
+  let config: GeneratedConfig;
+
+  beforeAll(() => {
+    // LLM_FIXTURES_MODE=record re-records the model replies (see tests/fixtures/README.md)
+    const recording = process.env.LLM_FIXTURES_MODE === 'record';
+    vi.stubEnv('LLM_FIXTURES_MODE', recording ? 'record' : 'replay');
+    vi.stubEnv('LLM_FIXTURES_DIR', LLM_FIXTURES);
+    vi.stubEnv('SUPABASE_URL', 'https://supabase.example');
+    vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key');
+    vi.stubEnv('GITHUB_TOKEN', 'github-token');
+    vi.stubEnv('GITHUB_OWNER', client.github_owner);
+    vi.stubEnv('GITHUB_REPO', client.github_repo);
+    const github = createReplayFetcher(GITHUB_FIXTURES);
+    const network = globalThis.fetch;
+    vi.stubGlobal('fetch', (url: string, init?: RequestInit) => {
+      if (url.startsWith('https://api.github.com/')) return github(url, init);
+      if (recording) return network(url, init);
+      throw new Error(`Unexpected request in replay: ${url}`);
+    });
+
+    db.tables.ai_website_clients = [{
+      id: client.id,
+      github_owner: client.github_owner,
+      github_repo: client.github_repo,
+      monthly_llm_budget_usd: 5,
+    }];
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('turns the intake conversation into a creative brief', async () => {
+    const res = await invoke(intakeHandler, {
+      message: '[FINALIZE_BRIEF]',
+      conversationHistory: [
+        { role: 'user', content: '[Client info: Summit Plumbing, summit-plumbing.example] We want the site to feel dependable and modern.' },
+        { role: 'assistant', content: 'Love it! Which services matter most, and what should visitors do first?' },
+        { role: 'user', content: 'Drain cleaning and water heaters. Mostly we want people to call us. Navy and orange like our vans.' },
+      ],
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.action).toBe('brief_complete');
+    expect(res.body.creativeBrief.services_to_feature).toEqual(['Drain Cleaning', 'Water Heater Repair']);
+
+    client.site_config = { creative_brief: res.body.creativeBrief, scraped_data: SCRAPED_DATA };
+  });
+
+  it('generates a valid SiteConfig, theme and vercel.json from the brief', async () => {
+    config = await generateConfig(supabase, client, caller);
+
+    expect(config.validation.valid).toBe(true);
+    expect(config.siteConfigData).toMatchObject({
+      businessName: 'Summit Plumbing',
+      siteUrl: ORIGIN,
+      fonts: { heading: 'Montserrat', body: 'Open Sans' },
+    });
+    expect(config.siteConfig).toContain('export const siteConfig: SiteConfig = {');
+    expect(config.themeCss).toContain('--color-primary: #1e3a5f;');
+    expect(config.themeCss).toContain("--font-heading: 'Montserrat', system-ui, sans-serif;");
+    expect(JSON.parse(config.vercelJson).headers[0].headers).toEqual([{ key: 'X-Robots-Tag', value: 'noindex, nofollow' }]);
+    expect(config.filesToGenerate).toContain('src/data/services/drain-cleaning.ts');
+  });
+
+  it('generates a section that passes validation', async () => {
+    const hero = await generatePage(client, 'src/components/sections/Hero.astro', config.siteConfig, caller);
+
+    expect(hero.validation).toMatchObject({ valid: true, checked: 'astro', repairAttempts: 0 });
+    expect(hero.content).toContain("Boulder's Trusted Plumbers");
+    expect(hero.content).toContain('data-section="hero"');
+  });
+
+  it('repairs a service content file that fails the type check', async () => {
+    const service = await generatePage(client, 'src/data/services/drain-cleaning.ts', config.siteConfig, caller);
+
+    expect(service.validation).toMatchObject({ valid: true, checked: 'typescript', repairAttempts: 1 });
+    expect(service.content).toContain("{ title: 'Clear and inspect'");
+  });
+
+  it('applies an editor change to a section', async () => {
+    const res = await invoke(editHandler, {
+      section: 'hero',
+      message: 'Lead with our 24/7 emergency service',
+      action: 'edit',
+      isGlobal: false,
+      currentPage: '/',
+      conversationHistory: [],
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.filePath).toBe('src/components/sections/Hero.astro');
+    expect(res.body.modifiedCode).toContain('24/7 Emergency Plumbing in Boulder');
+    expect(res.body.validation.valid).toBe(true);
+  });
+
+  it('accounts every model call to its endpoint and client', () => {
+    expect(usageRows().map((row) => [row.endpoint, row.client_id, row.step])).toEqual([
+      ['/api/client-intake', null, 'intake'],
+      ['/api/generation-resume', client.id, 'site-config'],
+      ['/api/generation-resume', client.id, 'theme'],
+      ['/api/generation-resume', client.id, 'page'],
+      ['/api/generation-resume', client.id, 'page'],
+      ['/api/generation-resume', client.id, 'repair'],
+      ['/api/edit', client.id, 'edit'],
+    ]);
+    expect(usageRows().every((row) => row.cost_usd > 0 && row.input_tokens > 0)).toBe(true);
+  });
+
+  it('refuses edits once the monthly budget is spent', async () => {
+    db.tables.ai_website_clients[0].monthly_llm_budget_usd = 0.05;
+    const calls = usageRows().length;
+
+    const res = await invoke(editHandler, {
+      section: 'hero',
+      message: 'Make the headline shorter',
+      action: 'edit',
+      isGlobal: false,
+      currentPage: '/',
+      conversationHistory: [],
+    });
+
+    expect(res.statusCode).toBe(402);
+    expect(res.body.budget).toMatchObject({ budgetUsd: 0.05, exceeded: true });
+    expect(usageRows()).toHaveLength(calls);
+  });
+});
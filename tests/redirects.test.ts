@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { buildRedirectMap, resolveChains, toRedirectSource, type RedirectEntry } from '../api/_redirects.js';
+
+const FILES = [
+  'src/pages/index.astro',
+  'src/pages/contact.astro',
+  'src/data/services/roof-repair.ts',
+  'src/data/services/gutter-cleaning.ts',
+  'src/components/sections/Hero.astro',
+];
+const ORIGIN = 'https://www.summit-roofing.example';
+
+function entry(old_path: string, new_path: string, source: RedirectEntry['source'] = 'manual'): RedirectEntry {
+  return { old_path, new_path, confidence: 1, reason: 'Entered manually', source };
+}
+
+describe('buildRedirectMap', () => {
+  it('matches legacy pages to new routes by slug, title and headings', () => {
+    const report = buildRedirectMap([
+      { url: `${ORIGIN}/roof-repairs.html`, title: 'Roof Repairs | Summit Roofing' },
+      { url: `${ORIGIN}/gutters/cleaning/`, title: 'Gutter Cleaning' },
+      { url: `${ORIGIN}/contact-us`, title: 'Contact Us' },
+      { url: `${ORIGIN}/our-services`, title: 'Services' },
+      { url: `${ORIGIN}/service`, title: 'What we do' },
+      { url: `${ORIGIN}/blog/2019/company-picnic`, title: 'Company Picnic Photos' },
+    ], FILES);
+
+    expect(report.redirect_map.map((r) => [r.old_path, r.new_path])).toEqual([
+      ['/roof-repairs.html', '/services/roof-repair/'],
+      ['/gutters/cleaning', '/services/gutter-cleaning/'],
+      ['/contact-us', '/contact/'],
+      ['/our-services', '/#services'],
+      ['/service', '/#services'],
+    ]);
+    expect(report.unmatched.map((u) => u.old_path)).toEqual(['/blog/2019/company-picnic']);
+  });
+
+  it('skips paths the new site has and paths with a manual redirect', () => {
+    const report = buildRedirectMap(
+      [{ url: `${ORIGIN}/contact/` }, { url: `${ORIGIN}/contact-us` }],
+      FILES,
+      [entry('/contact-us/', '/services/roof-repair/')],
+    );
+    expect(report.redirect_map).toEqual([entry('/contact-us/', '/services/roof-repair/')]);
+  });
+
+  it('ignores saved entries with a missing path', () => {
+    const broken = [{ new_path: '/contact/' }, { old_path: '/quote' }] as Partial<RedirectEntry>[] as RedirectEntry[];
+    const report = buildRedirectMap([{ url: `${ORIGIN}/contact-us` }], FILES, broken);
+    expect(report.redirect_map.map((r) => r.old_path)).toEqual(['/contact-us']);
+  });
+});
+
+describe('resolveChains', () => {
+  it('collapses chains to their final target', () => {
+    const { entries, chains } = resolveChains([
+      entry('/a', '/b'),
+      entry('/b/', '/c#team'),
+      entry('/c', '/contact/'),
+    ]);
+    expect(entries.map((e) => [e.old_path, e.new_path])).toEqual([
+      ['/a', '/contact/'],
+      ['/b/', '/contact/'],
+      ['/c', '/contact/'],
+    ]);
+    expect(chains[0]).toEqual({ path: ['/a', '/b', '/c', '/contact/'], collapsed_to: '/contact/' });
+  });
+
+  it('drops loops and self-redirects, reporting each loop once', () => {
+    const { entries, loops } = resolveChains([
+      entry('/a', '/b'),
+      entry('/b', '/a/'),
+      entry('/same/', '/same'),
+      entry('/kept', '/contact/'),
+    ]);
+    expect(entries.map((e) => e.old_path)).toEqual(['/kept']);
+    expect(loops).toEqual([{ path: ['/a', '/b', '/a'] }]);
+  });
+});
+
+describe('toRedirectSource', () => {
+  it('escapes path-to-regexp syntax in legacy paths', () => {
+    expect(toRedirectSource('/services/roofing')).toBe('/services/roofing');
+    expect(toRedirectSource('/page(1):draft*')).toBe('/page\\(1\\)\\:draft\\*');
+  });
+});
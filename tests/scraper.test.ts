@@ -0,0 +1,221 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'url';
+import { gzipSync } from 'zlib';
+import { createReplayFetcher, type Fetcher } from '../api/_fetcher.js';
+import {
+  fetchRobotsTxt,
+  parseRobotsTxt,
+  parseRobotsSitemaps,
+  isBlockedByRobots,
+  discoverSitemapUrls,
+  fetchSitemap,
+  fetchPage,
+  extractPageData,
+  extractMainContent,
+  type PageData,
+} from '../api/_scraper.js';
+
+/**
+ * The discover-and-scrape flow of /api/scrape-discover and /api/scrape-page,
+ * run offline against fixtures recorded with createRecordingFetcher
+ * (tests/fixtures/sites/<shape>/).
+ */
+
+function replay(site: string): Fetcher {
+  return createReplayFetcher(fileURLToPath(new URL(`./fixtures/sites/${site}`, import.meta.url)));
+}
+
+async function scrapeSite(origin: string, fetcher: Fetcher) {
+  const robotsTxt = await fetchRobotsTxt(origin, fetcher);
+  const robots = parseRobotsTxt(robotsTxt || '');
+  const sitemapEntries = await discoverSitemapUrls(
+    [...(robotsTxt ? parseRobotsSitemaps(robotsTxt) : []), `${origin}/sitemap.xml`],
+    origin,
+    fetcher,
+  );
+
+  const pages: PageData[] = [];
+  const skipped: string[] = [];
+  for (const { url } of sitemapEntries) {
+    if (isBlockedByRobots(new URL(url).pathname, robots)) {
+      skipped.push(url);
+      continue;
+    }
+    const result = await fetchPage(url, fetcher);
+    if (!result.html) throw new Error(`${url}: ${result.error}`);
+    const page = extractPageData(result.html, result.finalUrl, origin);
+    page.http = result.http;
+    pages.push(page);
+  }
+
+  return { robots, sitemapEntries, pages, skipped };
+}
+
+function page(pages: PageData[], url: string): PageData {
+  const found = pages.find((p) => p.url === url);
+  if (!found) throw new Error(`No page scraped for ${url}`);
+  return found;
+}
+
+describe('sitemap index with a gzipped child sitemap', () => {
+  const origin = 'https://www.summit-plumbing.example';
+
+  it('follows the index from robots.txt and dedupes URLs across child sitemaps', async () => {
+    const { sitemapEntries } = await scrapeSite(origin, replay('sitemap-index'));
+
+    expect(sitemapEntries).toEqual([
+      { url: `${origin}/`, sitemap: `${origin}/page-sitemap.xml` },
+      { url: `${origin}/about`, sitemap: `${origin}/page-sitemap.xml` },
+      { url: `${origin}/services/drain-cleaning`, sitemap: `${origin}/page-sitemap.xml` },
+      { url: `${origin}/blog/winter-pipes`, sitemap: `${origin}/post-sitemap.xml.gz` },
+    ]);
+  });
+
+  it('extracts metadata, contact details and main content from every page', async () => {
+    const { pages } = await scrapeSite(origin, replay('sitemap-index'));
+    const home = page(pages, `${origin}/`);
+
+    expect(home.title).toBe('Boulder Plumbers | Summit Plumbing');
+    expect(home.meta_description).toBe('Licensed plumbers serving Boulder since 1998.');
+    expect(home.phone_numbers).toContain('(303) 555-0142');
+    expect(home.email_addresses).toContain('office@summit-plumbing.example');
+    expect(home.content_markdown).toContain("# Boulder's Trusted Plumbers");
+    expect(home.content_markdown).toContain('- Same-day emergency service');
+    expect(home.content_markdown).not.toContain('Facebook');
+
+    const post = page(pages, `${origin}/blog/winter-pipes`);
+    expect(post.content_markdown).toContain('> A burst pipe can release hundreds of gallons in an hour.');
+    expect(post.word_count).toBeGreaterThan(30);
+  });
+});
+
+describe('fetchSitemap', () => {
+  it('gives up on a gzipped sitemap that inflates past the size limit', async () => {
+    const bomb = gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '));
+    const fetcher: Fetcher = async () => new Response(bomb);
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await fetchSitemap('https://www.summit-plumbing.example/sitemap.xml.gz', fetcher)).toBeNull();
+    expect(logged).toHaveBeenCalledOnce();
+    logged.mockRestore();
+  });
+});
+
+describe('sitemap listed only in robots.txt', () => {
+  const origin = 'https://oakridge-dental.example';
+
+  it('discovers the non-default sitemap and honours Disallow', async () => {
+    const { robots, sitemapEntries, skipped } = await scrapeSite(origin, replay('robots-only'));
+
+    expect(robots.crawl_delay).toBe(2);
+    expect(sitemapEntries.map((entry) => entry.url)).toEqual([
+      `${origin}/`,
+      `${origin}/services`,
+      `${origin}/team`,
+      `${origin}/patient-portal/login`,
+    ]);
+    expect(skipped).toEqual([`${origin}/patient-portal/login`]);
+  });
+
+  it('records redirect hops and scrapes the final URL', async () => {
+    const { pages } = await scrapeSite(origin, replay('robots-only'));
+    const team = page(pages, `${origin}/our-team`);
+
+    expect(team.http?.status).toBe(200);
+    expect(team.http?.redirects).toEqual([{ url: `${origin}/team`, status: 301, location: `${origin}/our-team` }]);
+    expect(team.content_markdown).toContain('Dr. Priya Shah');
+  });
+
+  it('finds the content container on pages without <main>', async () => {
+    const { pages } = await scrapeSite(origin, replay('robots-only'));
+    const services = page(pages, `${origin}/services`);
+
+    expect(services.headings.map((h) => h.text)).toEqual(['Dental Services', 'Cleanings and exams', 'Invisalign']);
+    expect(services.content_markdown).toContain('## Invisalign');
+    expect(services.content_markdown).not.toContain('Patient Portal');
+  });
+});
+
+describe('WordPress site built with Elementor', () => {
+  const origin = 'https://brightside-landscaping.example';
+
+  it('discovers pages from the default sitemap location and follows trailing-slash redirects', async () => {
+    const { sitemapEntries, pages } = await scrapeSite(origin, replay('wordpress-elementor'));
+
+    expect(sitemapEntries.map((entry) => entry.url)).toEqual([`${origin}/`, `${origin}/services/lawn-care`]);
+    const lawnCare = page(pages, `${origin}/services/lawn-care/`);
+    expect(lawnCare.http?.redirects).toHaveLength(1);
+    expect(lawnCare.title).toBe('Lawn Care – Brightside Landscaping');
+  });
+
+  it('extracts contact details and social links from builder markup', async () => {
+    const { pages } = await scrapeSite(origin, replay('wordpress-elementor'));
+    const home = page(pages, `${origin}/`);
+
+    expect(home.phone_numbers).toContain('(503) 555-0117');
+    expect(home.social_links).toContain('https://www.facebook.com/brightsidelandscaping');
+  });
+
+  it('keeps content inside widget wrappers and hero-banner sections', async () => {
+    const { pages } = await scrapeSite(origin, replay('wordpress-elementor'));
+    const home = page(pages, `${origin}/`);
+
+    expect(home.content_markdown).toContain('# Landscaping that makes Portland yards shine');
+    expect(home.content_markdown).toContain('- Seasonal cleanups');
+    expect(home.content_markdown).not.toMatch(/cookies|Share|555-0117/);
+    expect(home.word_count).toBeGreaterThan(50);
+
+    const lawnCare = page(pages, `${origin}/services/lawn-care/`);
+    expect(lawnCare.content_markdown).toMatch(/^# Lawn Care\n/);
+    expect(lawnCare.content_markdown).toContain('No. Plans are month to month');
+  });
+});
+
+describe('review widgets', () => {
+  const url = 'https://www.summit-plumbing.example/reviews';
+
+  it('reads each review card, its author, location and rating, and skips review links', async () => {
+    const result = await fetchPage(url, replay('review-widgets'));
+    const { testimonials } = extractPageData(result.html!, result.finalUrl, 'https://www.summit-plumbing.example');
+
+    expect(testimonials).toEqual([
+      {
+        quote: 'They found the leak behind our dishwasher in ten minutes and had it fixed before lunch.',
+        author_name: 'Maria G.',
+        author_title: 'Boulder, CO',
+        rating: 4,
+        source_page: url,
+      },
+      {
+        quote: 'Honest pricing and they cleaned up after themselves. We will call them again.',
+        author_name: 'Tom B.',
+        author_title: null,
+        rating: null,
+        source_page: url,
+      },
+      {
+        quote: 'Our water heater died on a Sunday and Summit had a new one in by the evening.',
+        author_name: 'Priya S.',
+        author_title: null,
+        rating: 5,
+        source_page: url,
+      },
+    ]);
+  });
+});
+
+describe('extractMainContent', () => {
+  it('removes marked chrome only when it is short or mostly links', () => {
+    const dishes = Array.from({ length: 12 }, (_, i) => `<p>Dish ${i + 1}: wood-fired, seasonal and made to order.</p>`).join('');
+    const html = `<body><main>
+      <h1>Our food</h1>
+      <section class="food-menu">${dishes}</section>
+      <div class="sidebar"><a href="/a">Archive</a> <a href="/b">Categories</a></div>
+      <div class="share-links"><a href="https://x.com/share">Post</a></div>
+    </main></body>`;
+
+    const markdown = extractMainContent(html, 'https://example.com/food');
+    expect(markdown).toContain('Dish 12: wood-fired');
+    expect(markdown).not.toMatch(/Archive|Post/);
+  });
+});
@@ -0,0 +1,198 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { auditScrapedData, auditToMarkdown, parseAuditInput, type AuditInput } from '../api/_seo-audit.js';
+import handler from '../api/seo-audit.js';
+
+/**
+ * SEO audit rules and POST /api/seo-audit input validation. Supabase auth
+ * and the client record are stand-ins.
+ */
+
+const db = vi.hoisted(() => ({ siteConfig: {} as Record<string, unknown>, updates: [] as unknown[] }));
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1', email: 'ops@agency.example' } }, error: null }) },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({ data: { id: 'client-1', client_name: 'Summit Plumbing', site_config: db.siteConfig }, error: null }),
+        }),
+      }),
+      update: (row: unknown) => ({
+        eq: async () => {
+          db.updates.push(row);
+          return { error: null };
+        },
+      }),
+    }),
+  }),
+}));
+
+const ORIGIN = 'https://www.summit-plumbing.example';
+
+function page(path: string, overrides: Partial<AuditInput['pages'][number]> = {}): AuditInput['pages'][number] {
+  return {
+    url: `${ORIGIN}${path}`,
+    title: `Title for ${path}`,
+    meta_description: `Description for ${path}`,
+    canonical: `${ORIGIN}${path}`,
+    headings: [{ level: 1, text: 'Heading' }],
+    images: [],
+    internal_links: [`${ORIGIN}/`],
+    word_count: 320,
+    ...overrides,
+  };
+}
+
+describe('auditScrapedData', () => {
+  it('passes a clean site', () => {
+    const audit = auditScrapedData({
+      source_url: ORIGIN,
+      pages: [page('/', { internal_links: [`${ORIGIN}/about/`] }), page('/about/')],
+    });
+    expect(audit.pages_audited).toBe(2);
+    expect(Object.values(audit.summary).every((n) => n === 0)).toBe(true);
+  });
+
+  it('flags missing and duplicate titles and descriptions', () => {
+    const { issues } = auditScrapedData({
+      source_url: ORIGIN,
+      pages: [
+        page('/', { title: 'Summit Plumbing', meta_description: '  ', internal_links: [`${ORIGIN}/a/`, `${ORIGIN}/b/`] }),
+        page('/a/', { title: 'summit  plumbing', meta_description: 'Same copy' }),
+        page('/b/', { title: null, meta_description: 'Same copy' }),
+      ],
+    });
+    expect(issues.missing_titles).toEqual([`${ORIGIN}/b/`]);
+    expect(issues.duplicate_titles).toEqual([{ value: 'Summit Plumbing', urls: [`${ORIGIN}/`, `${ORIGIN}/a/`] }]);
+    expect(issues.missing_descriptions).toEqual([`${ORIGIN}/`]);
+    expect(issues.duplicate_descriptions).toEqual([{ value: 'Same copy', urls: [`${ORIGIN}/a/`, `${ORIGIN}/b/`] }]);
+  });
+
+  it('flags H1 counts, off-site canonicals, missing alt text and thin pages', () => {
+    const { issues, summary } = auditScrapedData({
+      source_url: ORIGIN,
+      pages: [
+        page('/', {
+          headings: [{ level: 1, text: 'One' }, { level: 1, text: 'Two' }],
+          canonical: 'https://summit-plumbing.example/',
+          internal_links: [`${ORIGIN}/thin/`],
+        }),
+        page('/thin/', {
+          headings: [{ level: 2, text: 'No H1' }],
+          canonical: 'https://other.example/thin/',
+          images: [{ src: '/a.jpg', alt: '' }, { src: '/b.jpg', alt: 'Van' }, { src: '/c.jpg', alt: null }],
+          word_count: undefined,
+          body_text: 'Just a few words',
+        }),
+      ],
+    });
+    expect(issues.h1_problems).toEqual([
+      { url: `${ORIGIN}/`, h1_count: 2 },
+      { url: `${ORIGIN}/thin/`, h1_count: 0 },
+    ]);
+    // www and non-www are the same site
+    expect(issues.offsite_canonicals).toEqual([{ url: `${ORIGIN}/thin/`, canonical: 'https://other.example/thin/' }]);
+    expect(issues.images_missing_alt).toEqual([{ url: `${ORIGIN}/thin/`, images: ['/a.jpg', '/c.jpg'] }]);
+    expect(summary.images_missing_alt).toBe(2);
+    expect(issues.thin_pages).toEqual([{ url: `${ORIGIN}/thin/`, word_count: 4 }]);
+  });
+
+  it('reports orphans by path, never the homepage', () => {
+    const { issues } = auditScrapedData({
+      source_url: ORIGIN,
+      pages: [
+        page('/', { internal_links: ['https://summit-plumbing.example/linked'] }),
+        page('/linked/', { internal_links: [`${ORIGIN}/linked/`] }),
+        page('/orphan/', { internal_links: [`${ORIGIN}/orphan`] }),
+      ],
+    });
+    expect(issues.orphan_pages).toEqual([`${ORIGIN}/orphan/`]);
+  });
+
+  it('renders every section in the Markdown report', () => {
+    const audit = auditScrapedData({ source_url: ORIGIN, pages: [page('/', { title: null })] });
+    const markdown = auditToMarkdown(audit, 'SEO Audit (before rebuild)');
+    expect(markdown).toMatch(/^# SEO Audit \(before rebuild\)\n/);
+    expect(markdown).toContain('| Missing titles | 1 |');
+    expect(markdown).toContain(`## Missing titles\n\n- ${ORIGIN}/\n`);
+    expect(markdown).toContain('## Orphan pages\n\nNone found.\n');
+  });
+});
+
+describe('parseAuditInput', () => {
+  it('defaults list fields older scrapes lack', () => {
+    const { input, errors } = parseAuditInput({ source_url: ORIGIN, pages: [{ url: `${ORIGIN}/`, title: 'Home' }] });
+    expect(errors).toEqual([]);
+    expect(input?.pages[0]).toMatchObject({ headings: [], images: [], internal_links: [] });
+  });
+
+  it('reports malformed fields by path', () => {
+    const { input, errors } = parseAuditInput({
+      source_url: 'not a url',
+      pages: [{ url: `${ORIGIN}/`, images: 'hero.jpg', internal_links: [42] }],
+    });
+    expect(input).toBeNull();
+    expect(errors).toEqual([
+      'source_url: Invalid url',
+      'pages.0.images: Expected array, received string',
+      'pages.0.internal_links.0: Expected string, received number',
+    ]);
+  });
+});
+
+function post(body: Record<string, unknown>) {
+  const res = {
+    statusCode: 200,
+    body: undefined as any,
+    status(code: number) { this.statusCode = code; return this; },
+    json(payload: unknown) { this.body = payload; return this; },
+    setHeader() { return this; },
+    end() { return this; },
+  };
+  const req = { method: 'POST', headers: { authorization: 'Bearer token' }, body };
+  return Promise.resolve(handler(req as unknown as VercelRequest, res as unknown as VercelResponse)).then(() => res);
+}
+
+describe('POST /api/seo-audit', () => {
+  beforeAll(() => {
+    vi.stubEnv('SUPABASE_URL', 'https://supabase.example');
+    vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    db.siteConfig = {};
+    db.updates = [];
+  });
+
+  it('rejects a malformed scraped_data body with a 400', async () => {
+    const res = await post({ client_id: 'client-1', phase: 'after', scraped_data: { source_url: ORIGIN, pages: [{ url: `${ORIGIN}/`, images: null }] } });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('pages.0.images');
+    expect(db.updates).toEqual([]);
+  });
+
+  it('rejects malformed stored scraped_data with a 400', async () => {
+    db.siteConfig = { scraped_data: { source_url: ORIGIN, pages: [{ title: 'No URL' }] } };
+    const res = await post({ client_id: 'client-1' });
+    expect(res.statusCode).toBe(400);
+    expect(res.body.message).toContain('pages.0.url');
+  });
+
+  it('audits the stored scrape and saves the report under its phase', async () => {
+    db.siteConfig = { theme: 'kept', scraped_data: { source_url: ORIGIN, pages: [page('/')] } };
+    const res = await post({ client_id: 'client-1' });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data.audit.pages_audited).toBe(1);
+    expect(db.updates).toEqual([
+      expect.objectContaining({
+        site_config: expect.objectContaining({ theme: 'kept', seo_audits: { before: expect.any(Object) } }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { siteConfig } from '../src/data/siteConfig.js';
+import { servicePages } from '../src/lib/services.js';
+
+/** Pairing siteConfig.services with their src/data/services/{slug}.ts content. */
+
+describe('servicePages', () => {
+  const services = [...siteConfig.services];
+
+  afterEach(() => {
+    siteConfig.services = [...services];
+  });
+
+  it('pairs every service with its content, in siteConfig order', () => {
+    const pages = servicePages();
+    expect(pages.map((p) => p.service.slug)).toEqual(services.map((s) => s.slug));
+    expect(pages.every((p) => p.details)).toBe(true);
+  });
+
+  it('fails with the file to add when a service has no content', () => {
+    siteConfig.services = [...services, { ...services[0], slug: 'gutter-guards' }];
+    expect(() => servicePages()).toThrow(
+      'Service "gutter-guards" has no page content — add src/data/services/gutter-guards.ts',
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { BusinessHours } from '../src/data/siteConfigSchema.js';
+import { faqPageSchema, localBusinessSchema, openingHours, validateStructuredData } from '../src/lib/structuredData.js';
+
+/** JSON-LD opening hours and the build-time required-property check. */
+
+const CLOSED = { monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [] };
+
+describe('openingHours', () => {
+  it('groups days that share a time range into one specification', () => {
+    const hours: BusinessHours = {
+      timeZone: 'America/Chicago',
+      weekly: {
+        ...CLOSED,
+        monday: [{ opens: '08:00', closes: '17:00' }],
+        tuesday: [{ opens: '08:00', closes: '17:00' }],
+        wednesday: [{ opens: '08:00', closes: '12:00' }, { opens: '13:00', closes: '17:00' }],
+        saturday: [{ opens: '08:00', closes: '12:00' }],
+      },
+      exceptions: [],
+    };
+
+    expect(openingHours(hours)).toEqual({
+      openingHoursSpecification: [
+        { '@type': 'OpeningHoursSpecification', dayOfWeek: ['Monday', 'Tuesday'], opens: '08:00', closes: '17:00' },
+        { '@type': 'OpeningHoursSpecification', dayOfWeek: ['Wednesday', 'Saturday'], opens: '08:00', closes: '12:00' },
+        { '@type': 'OpeningHoursSpecification', dayOfWeek: ['Wednesday'], opens: '13:00', closes: '17:00' },
+      ],
+    });
+  });
+
+  it('lists dated exceptions as special hours, closed days as 00:00-00:00', () => {
+    const { specialOpeningHoursSpecification } = openingHours({
+      timeZone: 'America/Chicago',
+      weekly: CLOSED,
+      exceptions: [
+        { date: '2026-12-24', label: 'Christmas Eve', hours: [{ opens: '08:00', closes: '12:00' }] },
+        { date: '2026-12-25', label: 'Christmas Day', hours: [] },
+      ],
+    }) as { specialOpeningHoursSpecification: unknown[] };
+
+    expect(specialOpeningHoursSpecification).toEqual([
+      { '@type': 'OpeningHoursSpecification', opens: '08:00', closes: '12:00', validFrom: '2026-12-24', validThrough: '2026-12-24' },
+      { '@type': 'OpeningHoursSpecification', opens: '00:00', closes: '00:00', validFrom: '2026-12-25', validThrough: '2026-12-25' },
+    ]);
+  });
+
+  it('adds nothing without hours', () => {
+    expect(openingHours(null)).toEqual({});
+  });
+});
+
+describe('validateStructuredData', () => {
+  it('passes the schemas built from siteConfig', () => {
+    expect(validateStructuredData([
+      localBusinessSchema('https://www.starterbusiness.com/'),
+      faqPageSchema([{ question: 'Do you offer estimates?', answer: 'Yes, free.' }]),
+    ])).toEqual([]);
+  });
+
+  it('reports missing or empty required properties by path', () => {
+    expect(validateStructuredData({
+      '@type': 'LocalBusiness',
+      name: '  ',
+      address: { '@type': 'PostalAddress', streetAddress: '1 Main St', addressLocality: 'Austin', addressRegion: 'TX' },
+      openingHoursSpecification: [{ '@type': 'OpeningHoursSpecification', opens: '08:00' }],
+    })).toEqual([
+      'LocalBusiness.name is missing',
+      'LocalBusiness.address.postalCode is missing',
+      'LocalBusiness.openingHoursSpecification[0].closes is missing',
+    ]);
+  });
+
+  it('names top-level nodes by type and checks nested questions', () => {
+    expect(validateStructuredData([
+      { '@type': 'FAQPage', mainEntity: [{ '@type': 'Question', name: 'Hours?', acceptedAnswer: { '@type': 'Answer' } }] },
+      { '@type': 'Service', name: 'Drain Cleaning' },
+      { '@type': 'Thing' },
+    ])).toEqual([
+      'FAQPage.mainEntity[0].acceptedAnswer.text is missing',
+      'Service.provider is missing',
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { addMonths, getClientBudget, monthStart, summarizeUsage } from '../api/_usage.js';
+import editHandler from '../api/edit.js';
+
+/**
+ * Model usage reporting, monthly budgets and /api/edit refusing work once a
+ * client's budget is spent. Supabase is an in-memory stand-in.
+ */
+
+type Row = Record<string, any>;
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Row[]>, failing: null as string | null }));
+
+vi.mock('@supabase/supabase-js', () => {
+  class Query implements PromiseLike<{ data: any; error: { message: string } | null }> {
+    private filters: ((row: Row) => boolean)[] = [];
+    private window: [number, number] | null = null;
+    private single = false;
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    eq(column: string, value: unknown) { return this.where((row) => row[column] === value); }
+    gte(column: string, value: string) { return this.where((row) => row[column] >= value); }
+    lt(column: string, value: string) { return this.where((row) => row[column] < value); }
+    order() { return this; }
+    range(from: number, to: number) { this.window = [from, to]; return this; }
+    maybeSingle() { this.single = true; return this; }
+
+    then<T1, T2>(onFulfilled?: (value: any) => T1 | PromiseLike<T1>, onRejected?: (reason: any) => T2 | PromiseLike<T2>) {
+      return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+    }
+
+    private where(filter: (row: Row) => boolean) {
+      this.filters.push(filter);
+      return this;
+    }
+
+    private run() {
+      if (db.failing === this.table) return { data: null, error: { message: 'connection reset' } };
+      let rows = (db.tables[this.table] || []).filter((row) => this.filters.every((filter) => filter(row)));
+      if (this.window) rows = rows.slice(this.window[0], this.window[1] + 1);
+      return { data: this.single ? rows[0] ?? null : rows, error: null };
+    }
+  }
+
+  return {
+    createClient: () => ({
+      from: (table: string) => new Query(table),
+      auth: {
+        getUser: async () => ({ data: { user: { id: 'user-1', email: 'editor@bochi-web.example' } }, error: null }),
+      },
+    }),
+  };
+});
+
+const supabase = createClient('https://supabase.example', 'anon-key');
+
+function usage(clientId: string | null, step: string, createdAt: string, costUsd: number | null = 0.01): Row {
+  return { client_id: clientId, step, input_tokens: 100, output_tokens: 20, cost_usd: costUsd, created_at: createdAt };
+}
+
+beforeEach(() => {
+  db.tables = {};
+  db.failing = null;
+});
+
+describe('months (UTC)', () => {
+  it('starts the month at UTC midnight on the 1st', () => {
+    expect(monthStart(new Date('2026-03-31T23:30:00-05:00')).toISOString()).toBe('2026-04-01T00:00:00.000Z');
+    expect(monthStart(new Date('2026-03-01T00:00:00Z')).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('adds months across year ends', () => {
+    expect(addMonths(new Date('2026-12-15T12:00:00Z'), 1).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    expect(addMonths(new Date('2026-01-31T00:00:00Z'), -1).toISOString()).toBe('2025-12-01T00:00:00.000Z');
+  });
+});
+
+describe('summarizeUsage', () => {
+  it('sums calls by month, client and step, in that order', async () => {
+    db.tables.ai_website_llm_usage = [
+      usage('client-b', 'page', '2026-03-02T10:00:00Z', 0.02),
+      usage('client-a', 'page', '2026-03-03T10:00:00Z', 0.01),
+      usage('client-a', 'edit', '2026-03-04T10:00:00Z', null),
+      usage('client-a', 'page', '2026-03-05T10:00:00Z', 0.03),
+      usage(null, 'intake', '2026-03-06T10:00:00Z', 0.005),
+      usage('client-a', 'page', '2026-02-27T10:00:00Z', 0.04),
+      usage('client-a', 'page', '2026-04-01T00:00:00Z', 0.05), // outside the range
+    ];
+
+    const summary = await summarizeUsage(supabase, {
+      from: new Date('2026-02-01T00:00:00Z'),
+      to: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    expect(summary.map((row) => [row.month, row.client_id, row.step, row.calls, row.input_tokens])).toEqual([
+      ['2026-02', 'client-a', 'page', 1, 100],
+      ['2026-03', null, 'intake', 1, 100],
+      ['2026-03', 'client-a', 'edit', 1, 100],
+      ['2026-03', 'client-a', 'page', 2, 200],
+      ['2026-03', 'client-b', 'page', 1, 100],
+    ]);
+    // A call with no reported cost counts as free
+    expect(summary[2].cost_usd).toBe(0);
+    expect(summary[3].cost_usd).toBeCloseTo(0.04);
+  });
+
+  it('reads past the 1000-row page limit', async () => {
+    db.tables.ai_website_llm_usage = Array.from({ length: 1001 }, () => usage('client-a', 'page', '2026-03-02T10:00:00Z'));
+
+    const [row] = await summarizeUsage(supabase, {
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-04-01T00:00:00Z'),
+      clientId: 'client-a',
+    });
+    expect(row.calls).toBe(1001);
+  });
+
+  it('throws when usage cannot be read', async () => {
+    db.failing = 'ai_website_llm_usage';
+    await expect(summarizeUsage(supabase, { from: new Date(0), to: new Date() })).rejects.toThrow(
+      'Failed to load model usage: connection reset',
+    );
+  });
+});
+
+describe('getClientBudget', () => {
+  const now = new Date('2026-03-15T12:00:00Z');
+
+  it("compares this month's spend to the budget", async () => {
+    db.tables.ai_website_clients = [{ id: 'client-a', monthly_llm_budget_usd: '0.05' }];
+    db.tables.ai_website_llm_usage = [
+      usage('client-a', 'edit', '2026-02-28T23:59:59Z', 1),
+      usage('client-a', 'edit', '2026-03-01T00:00:00Z', 0.02),
+      usage('client-a', 'edit', '2026-03-14T00:00:00Z', 0.03),
+      usage('client-b', 'edit', '2026-03-14T00:00:00Z', 1),
+    ];
+
+    const budget = await getClientBudget(supabase, 'client-a', now);
+    expect(budget).toMatchObject({ budgetUsd: 0.05, exceeded: true, resetsAt: '2026-04-01T00:00:00.000Z' });
+    expect(budget.spentUsd).toBeCloseTo(0.05);
+  });
+
+  it('never exceeds without a budget', async () => {
+    db.tables.ai_website_clients = [{ id: 'client-a', monthly_llm_budget_usd: null }];
+    db.tables.ai_website_llm_usage = [usage('client-a', 'edit', '2026-03-14T00:00:00Z', 100)];
+
+    expect(await getClientBudget(supabase, 'client-a', now)).toMatchObject({ budgetUsd: null, exceeded: false });
+  });
+});
+
+describe('POST /api/edit budget', () => {
+  const modelCalls: string[] = [];
+
+  function edit() {
+    const res = {
+      statusCode: 200,
+      body: undefined as any,
+      status(code: number) { this.statusCode = code; return this; },
+      json(payload: unknown) { this.body = payload; return this; },
+      end() { return this; },
+    };
+    const req = {
+      method: 'POST',
+      headers: { authorization: 'Bearer test-session' },
+      body: { section: 'hero', message: 'Make the headline shorter', action: 'edit', currentPage: '/' },
+    };
+    return Promise.resolve(editHandler(req as unknown as VercelRequest, res as unknown as VercelResponse)).then(() => res);
+  }
+
+  beforeAll(() => {
+    vi.stubEnv('SUPABASE_URL', 'https://supabase.example');
+    vi.stubEnv('SUPABASE_ANON_KEY', 'anon-key');
+    vi.stubEnv('GITHUB_OWNER', 'bochi-web');
+    vi.stubEnv('GITHUB_REPO', 'summit-plumbing');
+    vi.stubGlobal('fetch', async (url: string) => {
+      modelCalls.push(String(url));
+      throw new Error(`Unexpected request: ${url}`);
+    });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-15T12:00:00Z'));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    modelCalls.length = 0;
+    db.tables.ai_website_clients = [
+      { id: 'client-a', github_owner: 'bochi-web', github_repo: 'summit-plumbing', monthly_llm_budget_usd: 0.05 },
+    ];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('refuses with 402 until the budget resets, without calling GitHub or the model', async () => {
+    db.tables.ai_website_llm_usage = [usage('client-a', 'edit', '2026-03-10T09:00:00Z', 0.06)];
+
+    const res = await edit();
+
+    expect(res.statusCode).toBe(402);
+    expect(res.body.message).toContain('edits are paused until April 1');
+    expect(res.body.budget).toMatchObject({ budgetUsd: 0.05, exceeded: true, resetsAt: '2026-04-01T00:00:00.000Z' });
+    expect(modelCalls).toEqual([]);
+  });
+
+  it('fails closed when the spend cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    db.failing = 'ai_website_llm_usage';
+
+    const res = await edit();
+
+    expect(res.statusCode).toBe(500);
+    expect(modelCalls).toEqual([]);
+  });
+});